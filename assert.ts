@@ -1,5 +1,9 @@
 import { StatusCode, STATUS_CODE, STATUS_TEXT } from "@std/http/status";
 import { HttpError } from "./context.ts";
+import { HttpErrorOptions } from "./types.ts";
+
+/** Error message, status code, error object or error class (such as `NotFoundError`) thrown by assertions */
+type AssertError = string | StatusCode | HttpError | (new (message?: string, options?: HttpErrorOptions) => HttpError);
 
 /**
  * Assertion utility class that assists in validating arguments.
@@ -12,23 +16,31 @@ import { HttpError } from "./context.ts";
 export class Assert {
 
     /** Assert a boolean expression is true or an object is not null and undefined */
-    static isTrue(obj: unknown, message: string | StatusCode): void {
-        if (!obj) Assert.throwHttpError(message);
+    static isTrue(obj: unknown, message: AssertError, code?: string): void {
+        if (!obj) Assert.throwHttpError(message, code);
     }
 
     /** Assert that the given string contains valid text content */
-    static hasText(str: string, message: string | StatusCode) {
-        if (!str || !str.trim()) Assert.throwHttpError(message);
+    static hasText(str: string, message: AssertError, code?: string) {
+        if (!str || !str.trim()) Assert.throwHttpError(message, code);
     }
 
-    /** Overload the error message parameter and throw HTTP error */
-    private static throwHttpError(message: string | StatusCode) {
+    /** Overload the error message parameter and throw HTTP error with the error code */
+    private static throwHttpError(message: AssertError, code?: string): never {
+        if (message instanceof HttpError) {
+            if (code) message.code = code;
+            throw message;
+        }
+        if (typeof message === "function") {
+            throw new message(undefined, { code });
+        }
+
         let status: StatusCode = STATUS_CODE.OK;
         if (typeof message === "number") {
             status = message;
             message = STATUS_TEXT[message];
         }
-        throw new HttpError(status, message);
+        throw new HttpError(status, message, { code });
     }
 
-}
\ No newline at end of file
+}
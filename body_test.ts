@@ -0,0 +1,92 @@
+import { assertEquals } from "@std/assert";
+import { Body, Controller, Post } from "./decorators.ts";
+import { createApp } from "./mod.ts";
+import { TestClient } from "./testing.ts";
+
+@Controller("/body")
+class BodyController {
+
+    @Post("/parsed")
+    parsed(@Body body: unknown) {
+        return { body };
+    }
+
+    @Post("/buffer")
+    buffer(@Body body: ArrayBuffer) {
+        return { type: body.constructor.name, size: body.byteLength };
+    }
+
+    @Post("/bytes")
+    bytes(@Body body: Uint8Array) {
+        return { type: body.constructor.name, text: new TextDecoder().decode(body) };
+    }
+
+    @Post("/stream")
+    async stream(@Body body: ReadableStream) {
+        return { text: await new Response(body).text() };
+    }
+
+    @Post("/twice")
+    twice(@Body parsed: unknown, @Body bytes: Uint8Array) {
+        return { parsed, size: bytes.length };
+    }
+}
+
+/** Create a client of the body controller */
+function createClient(): TestClient {
+    const app = createApp({ controllers: [BodyController] });
+    app.errors({ logger: () => {} });
+    return new TestClient(app);
+}
+
+/** Post the body with the content type to the parsing route */
+function post(client: TestClient, contentType: string | undefined, body: BodyInit) {
+    const request = client.post("/body/parsed").send(body);
+    return contentType ? request.header("Content-Type", contentType) : request;
+}
+
+Deno.test("body: parsed by Content-Type", async () => {
+    const client = createClient();
+    assertEquals(await post(client, "application/json", '{"a":[1]}').json(), { body: { a: [1] } });
+    assertEquals(await post(client, "application/problem+json", '{"b":2}').json(), { body: { b: 2 } });
+    // Bytes are sent without Content-Type, unlike strings sent as text/plain.
+    const bytes = new TextEncoder().encode('{"c":3}');
+    assertEquals(await post(client, undefined, bytes).json(), { body: { c: 3 } });
+    assertEquals(await post(client, "text/plain; charset=utf-8", "hello").json(), { body: "hello" });
+    assertEquals(await post(client, "application/x-www-form-urlencoded", "a=1&b=2&a=3").json(), {
+        body: { a: ["1", "3"], b: "2" }
+    });
+    assertEquals(await post(client, "application/json", "").json(), {});
+});
+
+Deno.test("body: multipart fields and files are parsed into an object", async () => {
+    const form = new FormData();
+    form.append("title", "Report");
+    form.append("tag", "a");
+    form.append("tag", "b");
+    form.append("doc", new File(["content"], "report.txt", { type: "text/plain" }));
+
+    const { body } = await createClient().post("/body/parsed").send(form).expectStatus(200).json();
+    assertEquals(body, {
+        title: "Report", tag: ["a", "b"], doc: { field: "doc", name: "report.txt", type: "text/plain", size: 7 }
+    });
+});
+
+Deno.test("body: malformed and unsupported bodies are rejected", async () => {
+    const client = createClient();
+    await post(client, "application/json", "{oops").expectStatus(400);
+    await post(client, "application/octet-stream", "\x00\x01").expectStatus(415);
+});
+
+Deno.test("body: binary bodies are injected by the declared type", async () => {
+    const client = createClient();
+    const binary = new Uint8Array([104, 105]);
+    assertEquals(await client.post("/body/buffer").send(binary).json(), { type: "ArrayBuffer", size: 2 });
+    assertEquals(await client.post("/body/bytes").send(binary).json(), { type: "Uint8Array", text: "hi" });
+    assertEquals(await client.post("/body/stream").send("streamed").json(), { text: "streamed" });
+});
+
+Deno.test("body: read once and cached for multiple parameters", async () => {
+    const response = await createClient().post("/body/twice").send({ a: 1 }).expectStatus(200).json();
+    assertEquals(response, { parsed: { a: 1 }, size: 7 });
+});
@@ -0,0 +1,207 @@
+import { AppOptions, BaseRoute, Constructor, DynamicRoute, ErrorRoute, InterceptorRoute, Parameter } from "./types.ts";
+import { Application } from "./mod.ts";
+import { getAllMetadata, getMetadata } from "./reflection.ts";
+import { compilePathPattern } from "./router.ts";
+
+/**
+ * Create a fresh application and DI container from the metadata of decorated classes.
+ * Only the specified classes are bootstrapped, so that applications are isolated from each other
+ * (e.g. testing a subset of controllers, or replacing components by providers of mocks).
+ * Missing and circular dependencies and invalid configuration fail here, and singletons are created eagerly.
+ * @example `createApp({ controllers: [UserController], middlewares: [Midware], config: "./config.yaml" })`
+ */
+export function createApp(options: AppOptions = {}): Application {
+    const app = buildApp(options);
+    app.container.bindConfiguration();
+    return app;
+}
+
+/** Build the application without binding the configuration (bound after the main class of @Cross is created) */
+export function buildApp(options: AppOptions = {}): Application {
+    const { controllers = [], middlewares = [], components = [], providers = [], config = [] } = options;
+    const app = new Application();
+    const { container } = app;
+
+    for (const provider of [...controllers, ...middlewares, ...components, ...providers]) {
+        container.provide(provider);
+    }
+    container.verify();
+    for (const path of typeof config === "string" ? [config] : config) {
+        app.config(path);
+    }
+    container.instantiateSingletons();
+
+    for (const middleware of middlewares) {
+        registerMiddleware(app, middleware);
+    }
+    for (const controller of controllers) {
+        registerController(app, controller);
+    }
+    verifyParameterInjections(app);
+
+    app.interceptors.sort((a, b) => a.order - b.order);  // Interceptor execution order
+    app.router.verify();  // Fail fast if there are duplicate or ambiguous routes
+    return app;
+}
+
+/** Find all classes decorated by @Controller, @Middleware and @Component */
+export function discoverComponents(): Required<AppOptions> {
+    const options: Required<AppOptions> = {
+        controllers: [], middlewares: [], components: [], providers: [], config: []
+    };
+    for (const [target, map] of getAllMetadata()) {
+        const metadata = map.get("constructor") as any;
+        switch (metadata?.component) {
+            case "controller": options.controllers.push(target as Constructor); break;
+            case "middleware": options.middlewares.push(target as Constructor); break;
+            case "component":  options.components.push(target as Constructor); break;
+        }
+    }
+    return options;
+}
+
+/** Add global interceptors and error handlers of the middleware to the application */
+function registerMiddleware(app: Application, target: Constructor): void {
+    const middleware = app.container.get(target);
+
+    // Add middleware routing method
+    const map = getMetadata(target) as Map<PropertyKey, any>;
+    for (const [propertyKey, metadata] of map) {
+        // Ignore class members without descriptor property
+        // (only process metadata with handler)
+        if (!metadata.descriptor) continue;
+
+        // The current instance must be bound to call other properties or methods within the instance.
+        if (metadata.isErrorRoute) {
+            addErrorRoute(app.errorRoutes, createErrorRoute(middleware, metadata));
+        } else {
+            app.interceptors.push(createInterceptorRoute(middleware, propertyKey, metadata));
+        }
+    }
+}
+
+/** Add all dynamic routes of the controller to the application */
+function registerController(app: Application, target: Constructor): void {
+    const controller = app.container.get(target);
+    const map = getMetadata(target) as Map<PropertyKey, any>;
+    const classMetadata = map.get("constructor") || {};
+
+    // Error handlers within the controller take precedence over global ones
+    const errorRoutes: ErrorRoute[] = [];
+    for (const [_propertyKey, metadata] of map) {
+        if (metadata.descriptor && metadata.isErrorRoute) {
+            addErrorRoute(errorRoutes, createErrorRoute(controller, metadata));
+        }
+    }
+
+    for (const [propertyKey, metadata] of map) {
+        // Ignore class members without descriptor property
+        // (only process metadata with handler)
+        if (!metadata.descriptor || metadata.isErrorRoute) continue;
+
+        // The current instance must be bound to call other properties or methods within the instance.
+        const classes = [...classMetadata.useInterceptors || [], ...metadata.useInterceptors || []];
+        const route: DynamicRoute = {
+            path: (classMetadata.basePath || "") + metadata.path,
+            method: metadata.method,
+            template: metadata.template,
+            upload: metadata.upload,
+            produces: metadata.produces,
+            consumes: metadata.consumes,
+            name: metadata.routeName ?? `${target.name}.${String(propertyKey)}`,
+            controller: target.name,
+            handlerName: String(propertyKey),
+            handler: metadata.descriptor.bind(controller),
+            parameters: getFuncParameters(metadata),
+            interceptors: classes.flatMap((type: Constructor) => getInterceptorRoutes(app, type)),
+            skipInterceptors: [...classMetadata.skipInterceptors || [], ...metadata.skipInterceptors || []],
+            skipCompression: classMetadata.skipCompression || metadata.skipCompression,
+            errorRoutes,
+        };
+        app.router.add(route);
+    }
+}
+
+/** Build error route from the metadata of @ErrorHandler method */
+function createErrorRoute(instance: object, metadata: any): ErrorRoute {
+    return {
+        template: metadata.template,
+        errorType: metadata.errorType,
+        handler: metadata.descriptor.bind(instance),
+        parameters: getFuncParameters(metadata),
+    };
+}
+
+/** Add error route, only one handler is allowed for each error class in the same scope */
+function addErrorRoute(errorRoutes: ErrorRoute[], errorRoute: ErrorRoute): void {
+    if (errorRoutes.some((r) => r.errorType === errorRoute.errorType)) {
+        const name = errorRoute.errorType?.name || "all errors";
+        throw new Error(`Only a unique @ErrorHandler can be defined for ${name} in the same scope.`);
+    }
+    errorRoutes.push(errorRoute);
+}
+
+/** Build interceptor route from the metadata of @Interceptor method */
+function createInterceptorRoute(instance: object, propertyKey: PropertyKey, metadata: any): InterceptorRoute {
+    return {
+        order: metadata.order,
+        phase: metadata.phase,
+        name: metadata.interceptorName ?? String(propertyKey),
+        include: metadata.include?.map(compilePathPattern),
+        exclude: metadata.exclude?.map(compilePathPattern),
+        handler: metadata.descriptor.bind(instance),
+        parameters: getFuncParameters(metadata),
+    };
+}
+
+/** Build interceptor routes from all @Interceptor methods of the class used by @UseInterceptors */
+function getInterceptorRoutes(app: Application, target: Constructor): InterceptorRoute[] {
+    if (!app.container.has(target)) {
+        app.container.provide(target);
+        app.container.verify(target);
+    }
+    const instance = app.container.get(target);
+    const map = getMetadata(target) as Map<PropertyKey, any> | undefined;
+    const routes: InterceptorRoute[] = [];
+    for (const [propertyKey, metadata] of map || []) {
+        if (metadata.descriptor && metadata.order !== undefined && !metadata.isErrorRoute) {
+            routes.push(createInterceptorRoute(instance, propertyKey, metadata));
+        }
+    }
+    return routes;
+}
+
+/** Verify the dependencies injected into parameters of handlers, interceptors and error handlers by @Inject */
+function verifyParameterInjections(app: Application): void {
+    const routes: BaseRoute[] = [...app.interceptors, ...app.errorRoutes];
+    for (const route of app.router.routes()) {
+        routes.push(route, ...route.interceptors || [], ...route.errorRoutes || []);
+    }
+    for (const { parameters } of routes) {
+        for (const { decorator, token } of parameters || []) {
+            if (decorator === "Inject") app.container.verify(token!);
+        }
+    }
+}
+
+/** Get the parameter list defined in the method */
+function getFuncParameters(metadata: any): Parameter[] {
+    // Retrieve parameter types from metadata and parse parameter names
+    const paramTypes = metadata["design:paramtypes"];
+    const paramNames = parseParameterNames(metadata.descriptor);
+
+    // Merge parameters with decorators
+    return paramTypes.map((type: any, index: number): Parameter => {
+        let parameter: Partial<Parameter> = metadata?.decoratedParams?.find((v: any) => v.index === index);
+        parameter ? parameter.type = type : parameter = { index, type };
+        parameter.name = paramNames[index];
+        return parameter as Parameter;
+    });
+}
+
+/** Parse parameter names defined in the method (some special cases may not be parsed) */
+function parseParameterNames(func: Function): string[] {
+    const fnStr = func.toString();
+    const paramSection = fnStr.slice(fnStr.indexOf("(") + 1, fnStr.indexOf(")"));
+    return paramSection.split(",").map(p => p.trim().split("=")[0].trim());
+}
@@ -0,0 +1,59 @@
+import { assert, assertEquals } from "@std/assert";
+import { Autowired, Component, Controller, Get } from "./decorators.ts";
+import { createApp } from "./mod.ts";
+import { TestClient } from "./testing.ts";
+
+@Component
+class CounterService {
+    count = 0;
+
+    next() {
+        return ++this.count;
+    }
+}
+
+@Controller("/counter")
+class CounterController {
+
+    @Autowired
+    counter!: CounterService;
+
+    @Get("/")
+    next() {
+        return { count: this.counter.next() };
+    }
+}
+
+@Controller("/ping")
+class PingController {
+
+    @Get("/")
+    ping() {
+        return "pong";
+    }
+}
+
+Deno.test("bootstrap: applications have their own routes and containers", async () => {
+    const first = createApp({ controllers: [CounterController], components: [CounterService] });
+    const second = createApp({ controllers: [CounterController, PingController], components: [CounterService] });
+    assert(first.container.get(CounterService) !== second.container.get(CounterService));
+
+    const client = new TestClient(first);
+    await client.get("/counter/");
+    assertEquals(await client.get("/counter/").json(), { count: 2 });
+    assertEquals(await new TestClient(second).get("/counter/").json(), { count: 1 });
+});
+
+Deno.test("bootstrap: only the specified controllers are registered", async () => {
+    const app = createApp({ controllers: [PingController] });
+    app.errors({ logger: () => {} });
+    assertEquals(app.routes().map((r) => r.path), ["/ping/"]);
+    await new TestClient(app).get("/counter/").expectStatus(404);
+});
+
+Deno.test("bootstrap: components can be replaced by providers of mocks", async () => {
+    const mock = { next: () => 42 };
+    const providers = [{ provide: CounterService, useValue: mock }];
+    const app = createApp({ controllers: [CounterController], providers });
+    assertEquals(await new TestClient(app).get("/counter/").json(), { count: 42 });
+});
@@ -0,0 +1,39 @@
+/** Content encodings supported by `CompressionStream` of the runtime (brotli is not available everywhere) */
+export const COMPRESSION_FORMATS: string[] = ["br", "gzip", "deflate"].filter((format) => {
+    try {
+        new CompressionStream(format as CompressionFormat);
+        return true;
+    } catch {
+        return false;
+    }
+});
+
+/** Textual MIME types worth compressing (images, media and archives are compressed already) */
+const COMPRESSIBLE = /^(text\/|image\/svg\+xml|application\/(json|javascript|xml|wasm|manifest\+json))|\+(json|xml)\b/i;
+
+/** Determine whether the content of the MIME type is worth compressing (event streams must not be buffered) */
+export function isCompressible(mimeType: string): boolean {
+    return COMPRESSIBLE.test(mimeType) && !mimeType.startsWith("text/event-stream");
+}
+
+/**
+ * Get the supported encodings accepted by the `Accept-Encoding` header, sorted by quality values
+ * and then by the order of the supported ones. Encodings with `q=0` are not acceptable.
+ * @example `acceptedEncodings("gzip;q=0.8, br", ["br", "gzip"])` returns `["br", "gzip"]`
+ */
+export function acceptedEncodings(header: string | null, supported: string[]): string[] {
+    if (!header) return [];
+    const qualities = new Map<string, number>();
+    for (const item of header.toLowerCase().split(",")) {
+        const [name, ...params] = item.split(";").map((s) => s.trim());
+        const q = params.find((p) => p.startsWith("q="));
+        qualities.set(name, q ? Number(q.slice(2)) : 1);
+    }
+    const quality = (encoding: string) => qualities.get(encoding) ?? qualities.get("*") ?? 0;
+    return supported.filter((encoding) => quality(encoding) > 0).sort((a, b) => quality(b) - quality(a));
+}
+
+/** Compress the body stream by the encoding */
+export function compress(body: ReadableStream<BufferSource>, encoding: string): ReadableStream<Uint8Array> {
+    return body.pipeThrough(new CompressionStream(encoding as CompressionFormat));
+}
@@ -0,0 +1,121 @@
+import { assert, assertEquals } from "@std/assert";
+import { HttpResponse } from "./context.ts";
+import { acceptedEncodings, isCompressible } from "./compression.ts";
+import { Controller, Get, SkipCompression } from "./decorators.ts";
+import { createApp } from "./mod.ts";
+import { TestClient } from "./testing.ts";
+import { CompressionOptions } from "./types.ts";
+
+const TEXT = "compressible ".repeat(200);
+
+@Controller("/data")
+class DataController {
+
+    @Get("/large")
+    large(response: HttpResponse) {
+        response.headers.set("ETag", '"v1"');
+        return { text: TEXT };
+    }
+
+    @Get("/small")
+    small() {
+        return { text: "small" };
+    }
+
+    @Get("/image")
+    image(response: HttpResponse) {
+        response.headers.set("Content-Type", "image/png");
+        return new TextEncoder().encode(TEXT);
+    }
+
+    @Get("/stream")
+    stream(response: HttpResponse) {
+        response.headers.set("Content-Type", "text/plain; charset=utf-8");
+        return new Response("streamed").body;
+    }
+
+    @Get("/events")
+    events(response: HttpResponse) {
+        response.headers.set("Content-Type", "text/event-stream");
+        return new Response("data: 1\n\n").body;
+    }
+
+    @Get("/native")
+    native() {
+        return new Response(TEXT, { headers: { "Content-Type": "text/plain" } });
+    }
+
+    @Get("/skipped")
+    @SkipCompression
+    skipped() {
+        return { text: TEXT };
+    }
+}
+
+/** Create a client of the data controller with the compression options */
+function createClient(options: Partial<CompressionOptions> = {}): TestClient {
+    const app = createApp({ controllers: [DataController] });
+    app.compression(options);
+    return new TestClient(app);
+}
+
+/** Request the path accepting gzip and return the response */
+function fetchGzip(client: TestClient, path: string): Promise<Response> {
+    return client.get(path).header("Accept-Encoding", "gzip").expectStatus(200).response();
+}
+
+/** Decompress the gzip body of the response */
+function gunzip(response: Response): Promise<string> {
+    return new Response(response.body!.pipeThrough(new DecompressionStream("gzip"))).text();
+}
+
+Deno.test("compression: accepted encodings are sorted by quality values", () => {
+    assertEquals(acceptedEncodings("gzip;q=0.8, br", ["br", "gzip", "deflate"]), ["br", "gzip"]);
+    assertEquals(acceptedEncodings("*;q=0.5, gzip", ["br", "gzip"]), ["gzip", "br"]);
+    assertEquals(acceptedEncodings("gzip;q=0, identity", ["gzip"]), []);
+    assertEquals(acceptedEncodings(null, ["gzip"]), []);
+    assert(isCompressible("application/problem+json") && isCompressible("image/svg+xml"));
+    assert(!isCompressible("image/png") && !isCompressible("text/event-stream"));
+});
+
+Deno.test("compression: large compressible bodies are compressed by the accepted encoding", async () => {
+    const response = await fetchGzip(createClient(), "/data/large");
+    assertEquals(response.headers.get("Content-Encoding"), "gzip");
+    assertEquals(response.headers.get("Vary"), "Accept-Encoding");
+    assertEquals(response.headers.get("Content-Length"), null);
+    assertEquals(response.headers.get("ETag"), 'W/"v1"');
+    assertEquals(JSON.parse(await gunzip(response)), { text: TEXT });
+});
+
+Deno.test("compression: small, incompressible and unaccepted bodies are not compressed", async () => {
+    const client = createClient();
+    for (const path of ["/data/small", "/data/image", "/data/native", "/data/skipped"]) {
+        const response = await fetchGzip(client, path);
+        assertEquals(response.headers.get("Content-Encoding"), null, path);
+        await response.body?.cancel();
+    }
+    const plain = await client.get("/data/large").response();
+    assertEquals(plain.headers.get("Content-Encoding"), null);
+    assertEquals((await plain.json()).text, TEXT);
+});
+
+Deno.test("compression: streamed bodies are compressed except event streams", async () => {
+    const client = createClient();
+    const stream = await fetchGzip(client, "/data/stream");
+    assertEquals(stream.headers.get("Content-Encoding"), "gzip");
+    assertEquals(await gunzip(stream), "streamed");
+
+    const events = await fetchGzip(client, "/data/events");
+    assertEquals(events.headers.get("Content-Encoding"), null);
+    assertEquals(await events.text(), "data: 1\n\n");
+});
+
+Deno.test("compression: threshold and switch are configurable", async () => {
+    const small = await fetchGzip(createClient({ threshold: 10 }), "/data/small");
+    assertEquals(small.headers.get("Content-Encoding"), "gzip");
+    await small.body?.cancel();
+
+    const disabled = await fetchGzip(createClient({ enabled: false }), "/data/large");
+    assertEquals(disabled.headers.get("Content-Encoding"), null);
+    await disabled.body?.cancel();
+});
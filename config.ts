@@ -0,0 +1,140 @@
+import { extname, resolve } from "@std/path";
+import { parse as parseYaml } from "@std/yaml";
+import { parse as parseToml } from "@std/toml";
+import { convertValue } from "./converter.ts";
+
+/** Environment variable to choose the configuration profile */
+export const PROFILE_ENV = "CROSS_PROFILE";
+
+/** Prefix of environment variables overriding configuration values (e.g. `CROSS_DB_POOL_SIZE`) */
+export const ENV_PREFIX = "CROSS_";
+
+/** Placeholder of environment variable with optional default value like `${DB_HOST:localhost}` */
+const PLACEHOLDER = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::([^}]*))?\}/g;
+
+/**
+ * Load the configuration file, layered in the following order (later ones take precedence):
+ * 1. The file itself (`config.yaml`)
+ * 2. The file of the profile if exists (`config.{profile}.yaml`, profile is chosen by `CROSS_PROFILE`)
+ * 3. Environment variables named by the prefix and the key path (`db.pool.size` by `CROSS_DB_POOL_SIZE`)
+ * Placeholders like `${DB_HOST:localhost}` in string values are replaced by environment variables.
+ * YAML, JSON and TOML files are supported.
+ */
+export function loadConfig(path: string, prefix: string[] = []): unknown {
+    let data = readConfigFile(path);
+
+    const profile = readEnv(PROFILE_ENV);
+    if (profile) {
+        const ext = extname(path);
+        const profilePath = path.slice(0, path.length - ext.length) + "." + profile + ext;
+        try {
+            data = mergeConfig(data, readConfigFile(profilePath));
+        } catch (err) {
+            if (!(err instanceof Deno.errors.NotFound)) throw err;
+        }
+    }
+    return overrideByEnv(interpolate(data, prefix), prefix);
+}
+
+/** Get the value of the configuration by key path like `db.pool.size` */
+export function getConfigValue(config: unknown, key: string): unknown {
+    let value: any = config;
+    for (const name of key.split(".")) {
+        if (value === null || typeof value !== "object") return undefined;
+        value = value[name];
+    }
+    return value;
+}
+
+/**
+ * Resolve the value of the configuration key, converted to the type (number, boolean, Date, bigint or string).
+ * Throws an error if the key is missing without default value, or the value cannot be converted.
+ */
+export function resolveConfigValue(config: unknown, key: string, type: unknown, defaultValue?: unknown): unknown {
+    const value = getConfigValue(config, key);
+    if (value === undefined || value === null) {
+        if (defaultValue !== undefined) return defaultValue;
+        throw new Error(`Missing configuration "${key}"`);
+    }
+    if (type === String) return String(value);
+    if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") return value;
+
+    const converted = convertValue(String(value), type);
+    if (converted === undefined) {
+        throw new Error(`Invalid configuration "${key}": expected ${(type as Function).name.toLowerCase()}`);
+    }
+    return converted;
+}
+
+/** Deep merge configurations, plain objects are merged and other values (including arrays) are replaced */
+export function mergeConfig(target: unknown, source: unknown): unknown {
+    if (!isRecord(target) || !isRecord(source)) return source;
+    const merged: Record<string, unknown> = { ...target };
+    for (const [key, value] of Object.entries(source)) {
+        merged[key] = key in merged ? mergeConfig(merged[key], value) : value;
+    }
+    return merged;
+}
+
+/** Read and parse the configuration file by extension (YAML by default) */
+function readConfigFile(path: string): unknown {
+    const content = Deno.readTextFileSync(resolve(path));
+    switch (extname(path).toLowerCase()) {
+        case ".json": return JSON.parse(content);
+        case ".toml": return parseToml(content);
+        default:      return parseYaml(content);
+    }
+}
+
+/** Replace placeholders of environment variables in string values */
+function interpolate(value: unknown, path: string[]): unknown {
+    if (typeof value === "string") {
+        return value.replace(PLACEHOLDER, (_, name: string, defaultValue?: string) => {
+            const env = readEnv(name) ?? defaultValue;
+            if (env === undefined) {
+                throw new Error(`Environment variable "${name}" of configuration "${path.join(".")}" is not defined`);
+            }
+            return env;
+        });
+    }
+    if (Array.isArray(value)) {
+        return value.map((v, i) => interpolate(v, [...path, String(i)]));
+    }
+    if (isRecord(value)) {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, interpolate(v, [...path, k])]));
+    }
+    return value;
+}
+
+/** Override scalar values by environment variables named by the prefix and the key path (e.g. `CROSS_DB_POOL_SIZE`) */
+function overrideByEnv(value: unknown, path: string[]): unknown {
+    if (isRecord(value)) {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, overrideByEnv(v, [...path, k])]));
+    }
+    if (Array.isArray(value) || !path.length) return value;
+
+    const name = ENV_PREFIX + path.join("_").replace(/[^A-Za-z0-9]+/g, "_").toUpperCase();
+    const env = readEnv(name);
+    if (env === undefined) return value;
+    return typeof value === "number" || typeof value === "boolean" ? convertValue(env, value.constructor) ?? env : env;
+}
+
+/**
+ * Read the environment variable, undefined if it is not defined or the permission (`--allow-env`) is not granted,
+ * so that configuration files can be loaded without the permission.
+ */
+function readEnv(name: string): string | undefined {
+    try {
+        return Deno.env.get(name);
+    } catch (err) {
+        if (err instanceof Deno.errors.PermissionDenied || err instanceof Deno.errors.NotCapable) return undefined;
+        throw err;
+    }
+}
+
+/** Determine whether the value is a key-value object parsed from configuration files (not Date or array) */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    if (value === null || typeof value !== "object") return false;
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+}
@@ -0,0 +1,168 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { join } from "@std/path";
+import { loadConfig } from "./config.ts";
+import { Component, ConfigurationProperties, Enum, Max, Min, Required, Value } from "./decorators.ts";
+import { createApp } from "./mod.ts";
+
+/** Write the configuration files into a temporary directory and run the test with environment variables */
+async function withConfig(
+    files: Record<string, string>, env: Record<string, string>, fn: (dir: string) => void | Promise<void>
+): Promise<void> {
+    const dir = await Deno.makeTempDir({ prefix: "cross-config-" });
+    try {
+        for (const [name, content] of Object.entries(files)) {
+            await Deno.writeTextFile(join(dir, name), content);
+        }
+        for (const [name, value] of Object.entries(env)) Deno.env.set(name, value);
+        await fn(dir);
+    } finally {
+        for (const name of Object.keys(env)) Deno.env.delete(name);
+        await Deno.remove(dir, { recursive: true });
+    }
+}
+
+const BASE_YAML = `
+db:
+  host: \${TEST_DB_HOST:localhost}
+  url: postgres://\${TEST_DB_USER}@\${TEST_DB_HOST:localhost}/app
+  pool:
+    size: 5
+    debug: false
+  replicas: [a, b]
+name: app
+`;
+
+Deno.test("config: the profile file and environment variables override the file", async () => {
+    const files = { "config.yaml": BASE_YAML, "config.test.yaml": "db:\n  pool:\n    size: 10\n  replicas: [c]\n" };
+    const env = { CROSS_PROFILE: "test", TEST_DB_USER: "admin", CROSS_DB_POOL_DEBUG: "true", CROSS_NAME: "prod" };
+    await withConfig(files, env, (dir) => {
+        assertEquals(loadConfig(join(dir, "config.yaml")), {
+            db: {
+                host: "localhost",
+                url: "postgres://admin@localhost/app",
+                pool: { size: 10, debug: true },
+                replicas: ["c"],
+            },
+            name: "prod",
+        });
+    });
+});
+
+Deno.test("config: placeholders without environment variables or defaults are rejected", async () => {
+    await withConfig({ "config.yaml": BASE_YAML }, {}, (dir) => {
+        assertThrows(() => loadConfig(join(dir, "config.yaml")), Error,
+            'Environment variable "TEST_DB_USER" of configuration "db.url" is not defined');
+    });
+});
+
+Deno.test("config: JSON and TOML files are supported, and loaded by key", async () => {
+    const files = { "mail.json": '{"port": 25, "tls": false}', "cache.toml": "ttl = 60\n[redis]\nhost = \"cache\"\n" };
+    await withConfig(files, { CROSS_MAIL_PORT: "587" }, (dir) => {
+        assertEquals(loadConfig(join(dir, "mail.json"), ["mail"]), { port: 587, tls: false });
+        assertEquals(loadConfig(join(dir, "cache.toml")), { ttl: 60, redis: { host: "cache" } });
+    });
+});
+
+@Component
+class DatabaseService {
+
+    @Value("db.pool.size")
+    size!: number;
+
+    @Value("db.pool.debug")
+    debug!: boolean;
+
+    @Value("db.timeout", 30)
+    timeout!: number;
+
+    @Value("db.host")
+    host!: string;
+}
+
+Deno.test("config: @Value injects typed values with defaults", async () => {
+    await withConfig({ "config.yaml": BASE_YAML }, { TEST_DB_USER: "admin", CROSS_DB_POOL_SIZE: "8" }, (dir) => {
+        const app = createApp({ components: [DatabaseService], config: join(dir, "config.yaml") });
+        const service = app.container.get(DatabaseService);
+        assertEquals([service.size, service.debug, service.timeout, service.host], [8, false, 30, "localhost"]);
+    });
+});
+
+Deno.test("config: missing and invalid @Value keys fail at bootstrap with every problem", async () => {
+    await withConfig({ "config.yaml": "db:\n  pool:\n    size: many\n" }, {}, (dir) => {
+        assertThrows(() => createApp({ components: [DatabaseService], config: join(dir, "config.yaml") }), Error,
+            "Invalid configuration:\n"
+            + '  Invalid configuration "db.pool.size": expected number (required by DatabaseService.size)\n'
+            + '  Missing configuration "db.pool.debug" (required by DatabaseService.debug)\n'
+            + '  Missing configuration "db.host" (required by DatabaseService.host)');
+    });
+});
+
+class PoolProperties {
+    size = 10;
+
+    @Min(1)
+    timeout: number = 30;
+}
+
+@ConfigurationProperties("database")
+class DatabaseProperties {
+    @Required
+    host!: string;
+
+    @Min(1) @Max(65535)
+    port: number = 5432;
+
+    @Enum(["disable", "require"])
+    ssl: string = "disable";
+
+    debug = false;
+    pool = new PoolProperties();
+    replicas: string[] = [];
+}
+
+Deno.test("config: configuration properties are converted by declared types and initial values", async () => {
+    const yaml = "database:\n  host: db\n  port: '6543'\n  ssl: require\n  debug: 'yes'\n  pool:\n    size: '20'\n";
+    await withConfig({ "config.yaml": yaml }, {}, (dir) => {
+        const app = createApp({ components: [DatabaseProperties], config: join(dir, "config.yaml") });
+        const properties = app.container.get(DatabaseProperties);
+        assertEquals({ ...properties, pool: { ...properties.pool } }, {
+            host: "db", port: 6543, ssl: "require", debug: true, pool: { size: 20, timeout: 30 }, replicas: []
+        });
+        assert(properties.pool instanceof PoolProperties);
+    });
+});
+
+Deno.test("config: invalid and undeclared configuration properties fail at bootstrap", async () => {
+    const yaml = "database:\n  prot: 6543\n  port: 70000\n  debug: maybe\n  replicas: a\n"
+        + "  pool:\n    size: abc\n    timeout: 0\n";
+    await withConfig({ "config.yaml": yaml }, {}, (dir) => {
+        assertThrows(() => createApp({ components: [DatabaseProperties], config: join(dir, "config.yaml") }), Error,
+            "Invalid configuration:\n"
+            + "  database.prot is not declared (DatabaseProperties)\n"
+            + "  database.host must not be empty (DatabaseProperties)\n"
+            + "  database.port must be less than or equal to 65535 (DatabaseProperties)\n"
+            + "  database.debug must be boolean (DatabaseProperties)\n"
+            + "  database.pool.size must be number (DatabaseProperties)\n"
+            + "  database.pool.timeout must be greater than or equal to 1 (DatabaseProperties)\n"
+            + "  database.replicas must be array (DatabaseProperties)");
+    });
+});
+
+@ConfigurationProperties("mail")
+class MailProperties {
+    host = "localhost";
+    port = 25;
+}
+
+Deno.test("config: files loaded after bootstrap are bound and validated again", async () => {
+    const files = { "mail.json": '{"host": "smtp", "port": 587}', "invalid.json": '{"port": "smtp"}' };
+    await withConfig(files, {}, (dir) => {
+        const app = createApp({ components: [MailProperties] });
+        const properties = app.container.get(MailProperties);
+        assertEquals([properties.host, properties.port], ["localhost", 25]);
+
+        app.config("mail", join(dir, "mail.json"));
+        assertEquals([properties.host, properties.port], ["smtp", 587]);
+        assertThrows(() => app.config("mail", join(dir, "invalid.json")), Error, "mail.port must be number");
+    });
+});
@@ -0,0 +1,315 @@
+import { Config, Constructor, InjectionToken, Provider } from "./types.ts";
+import { getMetadata } from "./reflection.ts";
+import { getConfigValue, resolveConfigValue } from "./config.ts";
+import { validate } from "./validator.ts";
+import { ValidationError } from "./context.ts";
+
+/** Dependency of a provider: a constructor or factory argument, or a property (or configuration value) */
+type Dependency = {
+    token: InjectionToken;
+    property?: PropertyKey;
+    value?: { key: string, type: unknown, defaultValue?: unknown };
+}
+
+/**
+ * Dependency Injection Container
+ * Each application has its own container. Instances are identified by tokens (class, string or symbol)
+ * and provided by classes, values or factories. Registered providers and classes decorated by
+ * @Component, @Controller or @Middleware are injectable by constructor parameters and by properties
+ * decorated with @Autowired or @Inject, and configuration values are injected by @Value or bound to
+ * @ConfigurationProperties classes.
+ * - `singleton`: One instance in the container (default)
+ * - `transient`: A new instance for each injection
+ * - `request`: One instance for each request
+ * The @PostConstruct and @PreDestroy methods of singletons are called when the application starts and shuts down.
+ *
+ * @Author Marco
+ * @Repository https://github.com/metadream/deno-cross
+ * @Since 2025-06-12
+ */
+export class Container {
+
+    private providers = new Map<InjectionToken, Provider>();
+    private instances = new Map<InjectionToken, unknown>();
+
+    // Tokens being resolved, used to detect circular dependencies
+    private resolving: InjectionToken[] = [];
+
+    // Singletons created by classes in dependency order (dependencies first), and whether they are initialized
+    private singletons: object[] = [];
+    private initialized = false;
+
+    // Configuration values and properties bound at bootstrap (and bound again if more files are loaded later)
+    private bindings: (() => void)[] = [];
+    private configured = false;
+
+    /** Register the provider, or the class as its own provider (replaces the existing one). */
+    provide(provider: Provider | Constructor): void {
+        const resolved = typeof provider === "function" ? classProvider(provider) : provider;
+        this.providers.set(resolved.provide, resolved);
+        this.instances.delete(resolved.provide);
+    }
+
+    /** Register the existing instance of the token. */
+    set(token: InjectionToken, instance: unknown): void {
+        this.provide({ provide: token, useValue: instance });
+    }
+
+    /** Determine whether the token can be injected. */
+    has(token: unknown): boolean {
+        return this.providers.has(token as InjectionToken) || isComponent(token);
+    }
+
+    /**
+     * Get the instance of the token, created and injected if it is not cached in its scope.
+     * Request-scoped instances are cached in the beans of the request.
+     */
+    get<T = any>(token: InjectionToken<T>, requestBeans?: Map<InjectionToken, unknown>): T {
+        const provider = this.getProvider(token, this.resolving);
+        const scope = provider.scope || "singleton";
+        if (scope === "request" && !requestBeans) {
+            throw new Error(`Request-scoped ${describe(token)} cannot be injected outside of requests`
+                + " (required by " + this.resolving.map(describe).join(" -> ") + ")");
+        }
+
+        // The cached instance allows singletons to refer to each other by properties.
+        const cache = scope === "singleton" ? this.instances : scope === "request" ? requestBeans : undefined;
+        if (cache?.has(token)) return cache.get(token) as T;
+        if (this.resolving.includes(token)) {
+            throw new Error("Circular dependency detected: " + [...this.resolving, token].map(describe).join(" -> "));
+        }
+
+        // Singletons never hold request-scoped instances.
+        const beans = scope === "singleton" ? undefined : requestBeans;
+        this.resolving.push(token);
+        try {
+            const instance = this.create(provider, beans);
+            cache?.set(token, instance);
+            for (const dependency of this.getDependencies(provider)) {
+                const { token, property, value } = dependency;
+                if (value) {
+                    this.addBinding(() => this.injectValue(instance as object, dependency));
+                } else if (property !== undefined) {
+                    (instance as any)[property] = this.get(token, beans);
+                }
+            }
+            const prefix = provider.useClass && getConfigPrefix(provider.useClass);
+            if (prefix !== undefined) {
+                this.addBinding(() => this.bindProperties(instance as object, prefix));
+            }
+            if (scope === "singleton" && provider.useClass) {
+                this.addSingleton(instance as object);
+            }
+            return instance as T;
+        } finally {
+            this.resolving.pop();
+        }
+    }
+
+    /**
+     * Verify that the dependencies of the tokens (all providers if not specified) exist
+     * and there is no circular dependency, without creating instances.
+     */
+    verify(...tokens: InjectionToken[]): void {
+        const verified = new Set<InjectionToken>();
+        const visit = (token: InjectionToken, chain: InjectionToken[]) => {
+            if (chain.includes(token)) {
+                throw new Error("Circular dependency detected: " + [...chain, token].map(describe).join(" -> "));
+            }
+            const provider = this.getProvider(token, chain);
+            if (verified.has(token)) return;
+
+            // Properties of singletons and request-scoped instances are injected after they are cached,
+            // so that they can refer to each other.
+            for (const dependency of this.getDependencies(provider)) {
+                const isCached = dependency.property !== undefined && provider.scope !== "transient" || !!dependency.value;
+                isCached ? this.getProvider(dependency.token, [...chain, token])
+                    : visit(dependency.token, [...chain, token]);
+            }
+            verified.add(token);
+        };
+        for (const token of tokens.length ? tokens : this.providers.keys()) {
+            visit(token, []);
+        }
+    }
+
+    /** Create instances of all singleton providers. */
+    instantiateSingletons(): void {
+        for (const [token, provider] of this.providers) {
+            if (!provider.scope || provider.scope === "singleton") this.get(token);
+        }
+    }
+
+    /**
+     * Inject configuration values of @Value and bind @ConfigurationProperties classes when the application is
+     * bootstrapped. Every problem is reported at once. Instances created later are bound at once.
+     */
+    bindConfiguration(): void {
+        const problems: string[] = [];
+        for (const bind of this.bindings) {
+            try {
+                bind();
+            } catch (err) {
+                problems.push((err as Error).message);
+            }
+        }
+        this.configured = true;
+        if (problems.length) {
+            throw new Error("Invalid configuration:\n  " + problems.join("\n  "));
+        }
+    }
+
+    /** Bind the configuration again with files loaded after bootstrap (if it has been bound). */
+    rebindConfiguration(): void {
+        if (this.configured) this.bindConfiguration();
+    }
+
+    /** Call @PostConstruct methods of singletons in dependency order (only once). */
+    async init(): Promise<void> {
+        if (this.initialized) return;
+        this.initialized = true;
+        for (const instance of this.singletons) {
+            await invokeHooks(instance, "postConstruct");
+        }
+    }
+
+    /** Call @PreDestroy methods of singletons in reverse dependency order, errors do not stop the others. */
+    async destroy(): Promise<void> {
+        for (const instance of [...this.singletons].reverse()) {
+            await invokeHooks(instance, "preDestroy").catch((err) => {
+                console.error("\x1b[31m[CROSS ERROR]\x1b[0m", err);
+            });
+        }
+        this.singletons = [];
+    }
+
+    /** Keep the singleton for lifecycle hooks, singletons created after initialization are initialized at once. */
+    private addSingleton(instance: object): void {
+        this.singletons.push(instance);
+        if (this.initialized) {
+            invokeHooks(instance, "postConstruct").catch((err) => {
+                console.error("\x1b[31m[CROSS ERROR]\x1b[0m", err);
+            });
+        }
+    }
+
+    /** Bind the configuration value, or keep it until the application is bootstrapped */
+    private addBinding(bind: () => void): void {
+        this.configured ? bind() : this.bindings.push(bind);
+    }
+
+    /**
+     * Bind the section of the configuration to the @ConfigurationProperties instance with validation.
+     * Initial values of fields are kept for missing keys, and validated as well. Every field is converted
+     * and checked by its type, and undeclared keys are reported.
+     */
+    private bindProperties(instance: object, prefix: string): void {
+        const type = instance.constructor as Constructor;
+        const section = (prefix ? getConfigValue(this.get(Config), prefix) : this.get(Config)) ?? {};
+        try {
+            Object.assign(instance, validate(type, section, true, true));
+        } catch (err) {
+            if (!(err instanceof ValidationError)) throw err;
+            const problems = err.errors.map(({ field, message }) => {
+                const key = [prefix, field].filter(Boolean).join(".");
+                return `${key} ${message} (${type.name})`;
+            });
+            throw new Error(problems.join("\n  "));
+        }
+    }
+
+    /** Inject the configuration value of @Value into the property */
+    private injectValue(instance: object, { property, value }: Dependency): void {
+        const { key, type, defaultValue } = value!;
+        try {
+            (instance as any)[property!] = resolveConfigValue(this.get(Config), key, type, defaultValue);
+        } catch (err) {
+            throw new Error(`${(err as Error).message} (required by ${instance.constructor.name}.${String(property)})`);
+        }
+    }
+
+    /** Find the provider of the token, decorated classes are registered automatically. */
+    private getProvider(token: InjectionToken, chain: InjectionToken[]): Provider {
+        let provider = this.providers.get(token);
+        if (!provider && isComponent(token)) {
+            provider = classProvider(token as Constructor);
+            this.providers.set(token, provider);
+        }
+        if (!provider) {
+            const required = chain.length ? " (required by " + chain.map(describe).join(" -> ") + ")" : "";
+            throw new Error(`No provider for ${describe(token)}${required}, it must be decorated or registered`);
+        }
+        return provider;
+    }
+
+    /** Create the instance by the provider with constructor or factory arguments injected. */
+    private create(provider: Provider, beans?: Map<InjectionToken, unknown>): unknown {
+        if ("useValue" in provider) return provider.useValue;
+        const args = this.getDependencies(provider)
+            .filter((d) => d.property === undefined)
+            .map((d) => this.get(d.token, beans));
+        if (provider.useFactory) return provider.useFactory(...args);
+        return new provider.useClass!(...args);
+    }
+
+    /**
+     * Get the dependencies of the provider: arguments of the factory, or constructor parameters
+     * (`design:paramtypes` or @Inject tokens) and decorated properties of the class.
+     */
+    private getDependencies(provider: Provider): Dependency[] {
+        if ("useValue" in provider) return [];
+        if (provider.useFactory) return (provider.inject || []).map((token) => ({ token }));
+
+        const map = getMetadata(provider.useClass!) as Map<PropertyKey, any> | undefined;
+        const classMetadata = map?.get("constructor") || {};
+        const paramTypes: unknown[] = classMetadata["design:paramtypes"] || [];
+        const dependencies: Dependency[] = paramTypes.map((type, index) => {
+            const injected = classMetadata.injectTokens?.find((t: any) => t.index === index);
+            return { token: injected ? injected.token : type as InjectionToken };
+        });
+
+        for (const [propertyKey, metadata] of map || []) {
+            if (propertyKey === "constructor") continue;
+            if (metadata.configValue) {
+                const value = { ...metadata.configValue, type: metadata["design:type"] };
+                dependencies.push({ token: Config, property: propertyKey, value });
+            } else if (metadata.autowired) {
+                dependencies.push({ token: metadata.injectToken ?? metadata["design:type"], property: propertyKey });
+            }
+        }
+        return dependencies;
+    }
+
+}
+
+/** Invoke the lifecycle hook methods (@PostConstruct or @PreDestroy) of the instance */
+async function invokeHooks(instance: object, hook: "postConstruct" | "preDestroy"): Promise<void> {
+    const map = getMetadata(instance.constructor) as Map<PropertyKey, any> | undefined;
+    for (const [propertyKey, metadata] of map || []) {
+        if (metadata[hook]) await (instance as any)[propertyKey]();
+    }
+}
+
+/** Create the provider of the class with the scope declared by @Component */
+function classProvider(type: Constructor): Provider {
+    const metadata = getMetadata(type, "constructor") as any;
+    return { provide: type, useClass: type, scope: metadata?.scope };
+}
+
+/** Get the configuration prefix of the class decorated by @ConfigurationProperties */
+function getConfigPrefix(type: Constructor): string | undefined {
+    const metadata = getMetadata(type, "constructor") as any;
+    return metadata?.configPrefix;
+}
+
+/** Determine whether the class is decorated by @Component, @Controller or @Middleware */
+function isComponent(type: unknown): boolean {
+    if (typeof type !== "function") return false;
+    const metadata = getMetadata(type, "constructor") as any;
+    return !!metadata?.component;
+}
+
+/** Describe the token in error messages */
+function describe(token: unknown): string {
+    return typeof token === "function" ? token.name : String(token);
+}
@@ -0,0 +1,111 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { Component, Controller, Get, Inject } from "./decorators.ts";
+import { createApp } from "./mod.ts";
+import { TestClient } from "./testing.ts";
+
+interface Repository {
+    find(id: number): string;
+}
+
+const REPOSITORY = Symbol("Repository");
+
+@Component
+class Logger {
+    lines: string[] = [];
+}
+
+class MemoryRepository implements Repository {
+    constructor(@Inject("db.prefix") private prefix: string) {}
+
+    find(id: number) {
+        return this.prefix + id;
+    }
+}
+
+@Component
+class UserService {
+    constructor(public logger: Logger, @Inject(REPOSITORY) public repository: Repository) {}
+}
+
+@Component({ scope: "transient" })
+class Task {
+    id = crypto.randomUUID();
+}
+
+@Component({ scope: "request" })
+class RequestState {
+    id = crypto.randomUUID();
+}
+
+@Component
+class Worker {
+    constructor(public first: Task, public second: Task) {}
+}
+
+@Controller("/state")
+class StateController {
+
+    @Get("/")
+    state(first: RequestState, second: RequestState) {
+        return { same: first === second, id: first.id };
+    }
+}
+
+/** Providers of the user service dependencies */
+const providers = [
+    { provide: REPOSITORY, useClass: MemoryRepository },
+    { provide: "db.prefix", useFactory: (env: string) => env + ":user:", inject: ["env"] },
+    { provide: "env", useValue: "test" },
+];
+
+Deno.test("container: constructor parameters are injected by types and tokens", () => {
+    const app = createApp({ components: [UserService], providers });
+    const service = app.container.get(UserService);
+    assert(service.logger instanceof Logger);
+    assertEquals(service.repository.find(1), "test:user:1");
+    assert(service.logger === app.container.get(Logger));
+});
+
+Deno.test("container: transient and request scopes create new instances", async () => {
+    const app = createApp({ controllers: [StateController], components: [Worker] });
+    const worker = app.container.get(Worker);
+    assert(worker.first.id !== worker.second.id);
+
+    const client = new TestClient(app);
+    const first = await client.get("/state/").json();
+    const second = await client.get("/state/").json();
+    assertEquals(first.same, true);
+    assert(first.id !== second.id);
+    assertThrows(() => app.container.get(RequestState), Error, "cannot be injected outside of requests");
+});
+
+Deno.test("container: missing dependencies fail at bootstrap with the dependency chain", () => {
+    assertThrows(() => createApp({ components: [UserService] }), Error,
+        "No provider for Symbol(Repository) (required by UserService), it must be decorated or registered");
+});
+
+Deno.test("container: circular dependencies fail at bootstrap with the dependency chain", () => {
+    @Component
+    class OrderService {
+        constructor(@Inject("payments") public payments: unknown) {}
+    }
+    const cycle = { provide: "payments", useFactory: (orders: unknown) => ({ orders }), inject: [OrderService] };
+    assertThrows(() => createApp({ components: [OrderService], providers: [cycle] }), Error,
+        "Circular dependency detected: OrderService -> payments -> OrderService");
+});
+
+Deno.test("container: singletons can refer to each other by properties", () => {
+    @Component
+    class Ping {
+        @Inject("pong")
+        pong!: { ping: Ping };
+    }
+    @Component
+    class Pong {
+        @Inject(Ping)
+        ping!: Ping;
+    }
+    const app = createApp({ components: [Ping], providers: [{ provide: "pong", useClass: Pong }] });
+    const ping = app.container.get(Ping);
+    assert(ping.pong.ping === ping);
+});
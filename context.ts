@@ -1,6 +1,13 @@
 import { type Cookie, getCookies, setCookie, deleteCookie } from "@std/http/cookie";
-import { RedirectStatus, StatusCode, STATUS_CODE } from "@std/http/status";
-import { Session } from "./types.ts";
+import { RedirectStatus, StatusCode, STATUS_CODE, STATUS_TEXT } from "@std/http/status";
+import {
+    CompressionOptions, ContextOptions, CookieOptions, FieldError, HttpErrorOptions, InjectionToken, ProblemDetails, Session, SessionOptions,
+    UploadOptions
+} from "./types.ts";
+import { MultipartData, parseMultipart } from "./multipart.ts";
+import { decrypt, encrypt, sign, verify } from "./crypto.ts";
+import { acceptedEncodings, compress, COMPRESSION_FORMATS, isCompressible } from "./compression.ts";
+import { decodeBase64Url, encodeBase64Url } from "@std/encoding";
 
 /**
  * Application Context Aggregation Classes
@@ -17,11 +24,14 @@ export class HttpContext {
     cookie: HttpCookie;
     session: HttpSession;
 
-    constructor(input: Request, info: Deno.ServeHandlerInfo) {
+    // Instances of request-scoped components
+    beans: Map<InjectionToken, unknown> = new Map();
+
+    constructor(input: Request, info: Deno.ServeHandlerInfo, options: ContextOptions) {
         this.request = new HttpRequest(input, info);
-        this.response = new HttpResponse();
-        this.cookie = new HttpCookie(this.request.headers, this.response.headers);
-        this.session = new HttpSession(this.cookie);
+        this.response = new HttpResponse(options.compression, this.request.headers.get("Accept-Encoding"));
+        this.cookie = new HttpCookie(this.request.headers, this.response.headers, options.cookie);
+        this.session = new HttpSession(this.cookie, options.session, this.request.uri.protocol === "https:");
     }
 
 }
@@ -57,6 +67,14 @@ export class HttpRequest extends Request {
     // The params on the request pathname
     params: Record<string, string | number | boolean> = {};
 
+    // The upload limits of the matched route
+    uploadOptions?: UploadOptions;
+
+    // The cache of the request body, so that it can be read multiple times.
+    private bufferCache?: Promise<ArrayBuffer>;
+    private bodyCache?: Promise<unknown>;
+    private multipartCache?: Promise<MultipartData>;
+
     constructor(input: Request, info: Deno.ServeHandlerInfo) {
         super(input);
         if (this.isNetAddr(info.remoteAddr)) {
@@ -72,6 +90,91 @@ export class HttpRequest extends Request {
         }
     }
 
+    /** The media type of the request body without parameters (e.g. `application/json`) */
+    get mediaType(): string {
+        const type = this.headers.get("Content-Type");
+        return type ? type.split(";")[0].trim().toLowerCase() : "";
+    }
+
+    /**
+     * Parse the request body according to the Content-Type (only parsed once per request)
+     * - `application/json`: JSON value (also used when no Content-Type is specified)
+     * - `application/x-www-form-urlencoded`: object (repeated keys become arrays)
+     * - `multipart/form-data`: object of fields and files (repeated keys become arrays)
+     * - `text/*`: string
+     */
+    parseBody(): Promise<unknown> {
+        return this.bodyCache ??= this.parseBodyByType();
+    }
+
+    /**
+     * Parse the multipart body into fields and uploaded files (only parsed once per request)
+     * Files are streamed to temporary files with the upload limits of the route.
+     */
+    parseMultipart(): Promise<MultipartData> {
+        return this.multipartCache ??= (async () => {
+            const boundary = this.headers.get("Content-Type")?.match(/boundary="?([^";]+)"?/i)?.[1];
+            if (this.mediaType !== "multipart/form-data" || !boundary || !this.body) {
+                return { fields: [], files: [] };
+            }
+            return await parseMultipart(this.body, boundary, this.uploadOptions);
+        })();
+    }
+
+    /** Remove temporary files of the uploads which have not been saved */
+    async cleanup(): Promise<void> {
+        const multipart = await this.multipartCache?.catch(() => undefined);
+        await Promise.all(multipart?.files.map((f) => f.cleanup()) || []);
+    }
+
+    /** Read the request body in the specified binary form */
+    async readBinary(type: typeof ArrayBuffer | typeof Uint8Array | typeof ReadableStream): Promise<unknown> {
+        // Pass the original stream directly if the body has never been read.
+        if (type === ReadableStream && !this.bufferCache && !this.bodyCache) {
+            this.bodyCache = Promise.resolve(this.body);
+            return this.body;
+        }
+        const buffer = await this.readBuffer();
+        if (type === Uint8Array) return new Uint8Array(buffer);
+        if (type === ReadableStream) return new Blob([buffer]).stream();
+        return buffer;
+    }
+
+    /** Parse the request body by media type */
+    private async parseBodyByType(): Promise<unknown> {
+        const type = this.mediaType;
+        if (type === "multipart/form-data") {
+            const { fields, files } = await this.parseMultipart();
+            return toObject([...fields, ...files.map((f) => [f.field, f] as [string, unknown])]);
+        }
+
+        const buffer = await this.readBuffer();
+        const text = new TextDecoder().decode(buffer);
+        if (!type || type === "application/json" || type.endsWith("+json")) {
+            if (!text) return undefined;
+            try {
+                return JSON.parse(text);
+            } catch {
+                throw new HttpError(STATUS_CODE.BadRequest, "Malformed JSON in request body");
+            }
+        }
+        if (type === "application/x-www-form-urlencoded") {
+            return toObject(new URLSearchParams(text));
+        }
+        if (type.startsWith("text/")) {
+            return text;
+        }
+        throw new HttpError(STATUS_CODE.UnsupportedMediaType, "Unsupported media type: " + type);
+    }
+
+    /** Read the request body into buffer (only read once per request) */
+    private readBuffer(): Promise<ArrayBuffer> {
+        if (this.bodyUsed && !this.bufferCache) {
+            throw new HttpError(STATUS_CODE.BadRequest, "Request body has already been consumed");
+        }
+        return this.bufferCache ??= this.arrayBuffer();
+    }
+
     /** Determines whether the address is a network address */
     private isNetAddr(addr: Deno.Addr): addr is Deno.NetAddr {
         return "hostname" in addr && "port" in addr;
@@ -79,6 +182,20 @@ export class HttpRequest extends Request {
 
 }
 
+/** Convert form entries to object (repeated keys become arrays) */
+function toObject(entries: Iterable<[string, unknown]>): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of entries) {
+        const exists = result[key];
+        if (exists === undefined) {
+            result[key] = value;
+        } else {
+            result[key] = Array.isArray(exists) ? [...exists, value] : [exists, value];
+        }
+    }
+    return result;
+}
+
 /**
  * HTTP Response Object
  * Since the native response cannot be changed if it's created, inherit ResponseInit
@@ -95,6 +212,11 @@ export class HttpResponse implements ResponseInit {
     statusText?: string;
     body?: BodyInit | Response | null | undefined;
 
+    // Whether the body can be compressed (disabled by @SkipCompression)
+    compressible = true;
+
+    constructor(private compression?: CompressionOptions, private acceptEncoding: string | null = null) {}
+
     /** Forced redirection (supported status code: 301 | 302 | 303 | 307 | 308) */
     redirect(status: RedirectStatus | string, url?: string): void {
         if (typeof status === "number") {
@@ -125,7 +247,7 @@ export class HttpResponse implements ResponseInit {
             body = JSON.stringify(body);
         }
         // Build a native response
-        return new Response(body, this);
+        return this.compress(new Response(body, this), body);
     }
 
     /** Determine whether the status represents an empty value */
@@ -133,11 +255,49 @@ export class HttpResponse implements ResponseInit {
         return this.status === STATUS_CODE.NoContent || this.status === STATUS_CODE.NotModified;
     }
 
+    /**
+     * Compress the response body by the encoding accepted by the request, if its type is compressible
+     * and its size reaches the threshold. Strong ETags are weakened since the bytes of the body are changed.
+     */
+    private compress(response: Response, body: BodyInit): Response {
+        const { headers } = response;
+        const mimeType = headers.get("Content-Type");
+        if (!this.compression?.enabled || !this.compressible || !response.body || headers.has("Content-Encoding")
+            || !mimeType || !isCompressible(mimeType)) {
+            return response;
+        }
+        const size = this.bodySize(body) ?? Number(headers.get("Content-Length") || Infinity);
+        if (size < this.compression.threshold) return response;
+
+        // Caches must distinguish compressed and uncompressed responses.
+        if (!headers.get("Vary")?.toLowerCase().includes("accept-encoding")) {
+            headers.append("Vary", "Accept-Encoding");
+        }
+        const [encoding] = acceptedEncodings(this.acceptEncoding, COMPRESSION_FORMATS);
+        if (!encoding) return response;
+
+        headers.set("Content-Encoding", encoding);
+        headers.delete("Content-Length");
+        const etag = headers.get("ETag");
+        if (etag && !etag.startsWith("W/")) headers.set("ETag", "W/" + etag);
+        const { status, statusText } = response;
+        return new Response(compress(response.body, encoding), { status, statusText, headers });
+    }
+
+    /** Get the byte size of the response body, or undefined if it is unknown (e.g. streams) */
+    private bodySize(body: BodyInit): number | undefined {
+        if (typeof body === "string") return new TextEncoder().encode(body).length;
+        if (body instanceof Blob) return body.size;
+        if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return body.byteLength;
+        if (body instanceof URLSearchParams) return body.toString().length;
+        return undefined;
+    }
+
     /** Determines whether the response body is a plain object */
     isPlainObject(): boolean {
         const b = this.body;
         return !(
-            b instanceof Blob || b instanceof FormData || b instanceof Uint8Array ||
+            b instanceof Blob || b instanceof FormData || b instanceof ArrayBuffer || ArrayBuffer.isView(b) ||
             b instanceof ReadableStream || b instanceof URLSearchParams
         );
     }
@@ -146,7 +306,7 @@ export class HttpResponse implements ResponseInit {
 
 /**
  * Http Cookie Object
- * A simple wrapper for standard cookies
+ * A simple wrapper for standard cookies, with signed and encrypted cookies.
  *
  * @Author Marco
  * @Repository https://github.com/metadream/deno-cross
@@ -155,10 +315,12 @@ export class HttpResponse implements ResponseInit {
 export class HttpCookie {
     private reqHeaders!: Headers;
     private resHeaders!: Headers;
+    private options: CookieOptions;
 
-    constructor(reqHeaders: Headers, resHeaders: Headers) {
+    constructor(reqHeaders: Headers, resHeaders: Headers, options: CookieOptions = {}) {
         this.reqHeaders = reqHeaders;
         this.resHeaders = resHeaders;
+        this.options = options;
     }
 
     /** Get cookie by name from request headers */
@@ -168,7 +330,7 @@ export class HttpCookie {
     }
 
     /** Set cookie to response headers */
-    set(name: string, value: string, options?: Cookie): void {
+    set(name: string, value: string, options?: Omit<Cookie, "name" | "value">): void {
         const cookie = { name, value };
         Object.assign(cookie, options);
         setCookie(this.resHeaders, cookie);
@@ -179,11 +341,76 @@ export class HttpCookie {
         deleteCookie(this.resHeaders, name, attributes);
     }
 
+    /** Set cookie signed with HMAC (readable but tamper-proof by the client) */
+    async setSigned(name: string, value: unknown, options?: Omit<Cookie, "name" | "value">): Promise<void> {
+        const payload = encodeBase64Url(this.wrap(value, options));
+        const signature = await sign(name + "=" + payload, this.secrets()[0]);
+        this.set(name, payload + "." + signature, options);
+    }
+
+    /** Get signed cookie, return undefined if it is missing, tampered or expired */
+    async getSigned<T>(name: string): Promise<T | undefined> {
+        const secrets = this.secrets();
+        try {
+            const [payload, signature] = (this.get(name) as string || "").split(".");
+            if (!payload || !signature || !await verify(name + "=" + payload, signature, secrets)) return;
+            return this.unwrap<T>(new TextDecoder().decode(decodeBase64Url(payload)));
+        } catch {
+            return undefined;
+        }
+    }
+
+    /** Set cookie encrypted with AES-GCM (unreadable and tamper-proof by the client) */
+    async setEncrypted(name: string, value: unknown, options?: Omit<Cookie, "name" | "value">): Promise<void> {
+        const token = await encrypt(this.wrap(value, options), this.secrets()[0], name);
+        this.set(name, token, options);
+    }
+
+    /** Get encrypted cookie, return undefined if it is missing, tampered or expired */
+    async getEncrypted<T>(name: string): Promise<T | undefined> {
+        const secrets = this.secrets();
+        try {
+            const token = this.get(name) as string;
+            if (!token) return;
+            const data = await decrypt(token, secrets, name);
+            return data === undefined ? undefined : this.unwrap<T>(data);
+        } catch {
+            return undefined;
+        }
+    }
+
+    /** Wrap the value with expiration time, so that the client cannot extend it */
+    private wrap(value: unknown, options?: Omit<Cookie, "name" | "value">): string {
+        let expires: number | undefined;
+        if (options?.maxAge !== undefined) {
+            expires = Date.now() + options.maxAge * 1000;
+        } else if (options?.expires !== undefined) {
+            expires = new Date(options.expires).getTime();
+        }
+        return JSON.stringify({ v: value, e: expires });
+    }
+
+    /** Unwrap the value, return undefined if it has expired */
+    private unwrap<T>(data: string): T | undefined {
+        const { v, e } = JSON.parse(data);
+        return e && e < Date.now() ? undefined : v;
+    }
+
+    /** Get the secrets, the first one is used for signing and encryption */
+    private secrets(): string[] {
+        const { secret, oldSecrets = [] } = this.options;
+        if (!secret) {
+            throw new Error("Cookie secret must be configured by app.cookies() before using signed or encrypted cookies");
+        }
+        return [secret, ...oldSecrets];
+    }
+
 }
 
 /**
  * Http Session Object
- * Using cookies and memory storage to create sessions
+ * Using cookies and pluggable storage to create sessions.
+ * The session is loaded lazily and only persisted when the data is dirty.
  *
  * @Author Marco
  * @Repository https://github.com/metadream/deno-cross
@@ -191,64 +418,128 @@ export class HttpCookie {
  */
 export class HttpSession {
 
-    private static MAX_AGE = 3600; // seconds (default expired in 1 hour)
-    private static SESS_KEY = "SESSION_ID";
-    private static SESS_STORE = new Map<string, Session>();
-
     private cookie: HttpCookie;
-    private readonly id: string;
-
-    /** Automatically clean up expired sessions */
-    static {
-        setInterval(() => {
-            const now = Date.now();
-            for (const [id, session] of HttpSession.SESS_STORE.entries()) {
-                if (session.expires < now) {
-                    HttpSession.SESS_STORE.delete(id);
-                }
-            }
-        }, 1000);
+    private options: SessionOptions;
+    private secure: boolean;
+    private id?: string;
+    private loading?: Promise<Session>;
+    private isNew = false;
+    private dirty = false;
+    private destroyed = false;
+
+    constructor(cookie: HttpCookie, options: SessionOptions, secure: boolean = false) {
+        this.cookie = cookie;
+        this.options = options;
+        this.secure = secure;
+        this.id = cookie.get(options.cookieName) as string | undefined;
     }
 
-    constructor(cookie: HttpCookie) {
-        this.cookie = cookie;
-        this.id = cookie.get(HttpSession.SESS_KEY) as string || crypto.randomUUID();
-        const expires = Date.now() + HttpSession.MAX_AGE * 1000;
-
-        // Create a new session if it does not exist
-        let session = HttpSession.SESS_STORE.get(this.id);
-        if (!session) {
-            session = { data: {}, expires };
-            HttpSession.SESS_STORE.set(this.id, session);
-            cookie.set(HttpSession.SESS_KEY, this.id);
+    async get<T>(key: string): Promise<T | undefined> {
+        const session = await this.load();
+        return session.data[key] as T;
+    }
+
+    async set(key: string, value: unknown): Promise<void> {
+        const session = await this.load();
+        session.data[key] = value;
+        this.dirty = true;
+    }
+
+    async delete(key: string): Promise<void> {
+        const session = await this.load();
+        delete session.data[key];
+        this.dirty = true;
+    }
+
+    /**
+     * Set a flash message available until it is read, or read and remove the flash message.
+     * @example `await session.flash("notice", "Saved successfully")`
+     * @example `const notice = await session.flash<string>("notice")`
+     */
+    async flash<T>(key: string): Promise<T | undefined>;
+    async flash(key: string, value: unknown): Promise<void>;
+    async flash(key: string, ...value: unknown[]): Promise<unknown> {
+        const session = await this.load();
+        const flash = session.flash ??= {};
+
+        if (value.length) {
+            flash[key] = value[0];
+            this.dirty = true;
+            return;
+        }
+        const message = flash[key];
+        if (key in flash) {
+            delete flash[key];
+            this.dirty = true;
         }
-        // Refresh the active time
-        session.expires = expires;
+        return message;
     }
 
-    get<T>(key: string): T | undefined {
-        const session = HttpSession.SESS_STORE.get(this.id);
-        return session?.data[key] as T;
+    /** Rotate the session id and keep the data (e.g. after login to prevent session fixation) */
+    async regenerate(): Promise<void> {
+        await this.load();
+        if (!this.isNew) {
+            await this.options.store.destroy(this.id!);
+        }
+        this.id = crypto.randomUUID();
+        this.isNew = true;
+        this.dirty = true;
     }
 
-    set(key: string, value: unknown): void {
-        const session = HttpSession.SESS_STORE.get(this.id);
-        if (session) {
-            session.data[key] = value;
-            session.expires = Date.now() + HttpSession.MAX_AGE * 1000;
+    async destroy(): Promise<void> {
+        this.destroyed = true;
+        if (this.id) {
+            const { path, domain } = this.options.cookie;
+            await this.options.store.destroy(this.id);
+            this.cookie.delete(this.options.cookieName, { path, domain });
         }
     }
 
-    delete(key: string): void {
-        const session = HttpSession.SESS_STORE.get(this.id);
-        if (session) {
-            delete session.data[key];
+    /** Persist the session if it has been loaded: save dirty data, otherwise refresh the active time */
+    async save(): Promise<void> {
+        if (!this.loading || this.destroyed) return;
+        const session = await this.loading;
+        session.expires = this.expiresAt(session.created);
+
+        if (this.dirty) {
+            await this.options.store.set(this.id!, session);
+            if (this.isNew) {
+                this.cookie.set(this.options.cookieName, this.id!, { secure: this.secure, ...this.options.cookie });
+            }
+            this.dirty = false;
+        } else if (!this.isNew) {
+            await this.options.store.touch(this.id!, session.expires);
         }
     }
 
-    destroy(): void {
-        HttpSession.SESS_STORE.delete(this.id);
-        this.cookie.delete(HttpSession.SESS_KEY);
+    /**
+     * Load the session from store only once, create a new session if it does not exist.
+     * The new session will not be saved (and no cookie set) unless the data is modified.
+     */
+    private load(): Promise<Session> {
+        return this.loading ??= (async () => {
+            const { store, absoluteTimeout } = this.options;
+            const session = this.id ? await store.get(this.id) : undefined;
+            if (session) {
+                // Check absolute timeout since the session was created.
+                if (!absoluteTimeout || session.created + absoluteTimeout * 1000 > Date.now()) {
+                    return session;
+                }
+                await store.destroy(this.id!);
+            }
+
+            const created = Date.now();
+            this.id = crypto.randomUUID();
+            this.isNew = true;
+            return { data: {}, created, expires: this.expiresAt(created) };
+        })();
+    }
+
+    /** Calculate the expiration time with idle timeout (maxAge) and absolute timeout */
+    private expiresAt(created: number): number {
+        const { maxAge, absoluteTimeout } = this.options;
+        const expires = Date.now() + maxAge * 1000;
+        return absoluteTimeout ? Math.min(expires, created + absoluteTimeout * 1000) : expires;
     }
 
 }
@@ -262,9 +553,14 @@ export class HttpSession {
  */
 export class HttpError extends Error {
     status: StatusCode;
+    expose: boolean;
+    code?: string;
+    type?: string;
+    extensions?: Record<string, unknown>;
+    production = false;  // Set by the application handling the error
 
-    constructor(status: StatusCode | string, message: string = "Internal Server Error") {
-        super(message);
+    constructor(status: StatusCode | string, message: string = "Internal Server Error", options: HttpErrorOptions = {}) {
+        super(message, { cause: options.cause });
 
         if (typeof status === "number") {
             this.status = status;
@@ -272,11 +568,96 @@ export class HttpError extends Error {
             this.status = STATUS_CODE.InternalServerError;
             this.message = status;
         }
+        this.name = new.target.name;
+        this.expose = options.expose ?? this.status < 500;
+        this.code = options.code;
+        this.type = options.type;
+        this.extensions = options.extensions;
     }
 
-    /** JSON.stringify() will automatically call this method for serialization. */
+    /**
+     * JSON.stringify() will automatically call this method for serialization.
+     * The message is hidden in production mode unless it is exposed.
+     */
     toJSON(): {} {
-        return { status: this.status, message: this.message };
+        const message = this.expose || !this.production ? this.message : STATUS_TEXT[this.status] || "Unknown Error";
+        return { status: this.status, message, code: this.code };
+    }
+
+    /**
+     * Convert to the problem details object (RFC 9457).
+     * The message is hidden in production mode unless it is exposed.
+     */
+    toProblem(instance?: string, production: boolean = this.production): ProblemDetails {
+        return {
+            ...this.extensions,
+            type: this.type || "about:blank",
+            title: STATUS_TEXT[this.status] || "Unknown Error",
+            status: this.status,
+            detail: this.expose || !production ? this.message : undefined,
+            instance,
+            code: this.code
+        };
+    }
+
+}
+
+/** 400 Bad Request */
+export class BadRequestError extends HttpError {
+    constructor(message: string = "Bad Request", options?: HttpErrorOptions) {
+        super(STATUS_CODE.BadRequest, message, options);
+    }
+}
+
+/** 401 Unauthorized */
+export class UnauthorizedError extends HttpError {
+    constructor(message: string = "Unauthorized", options?: HttpErrorOptions) {
+        super(STATUS_CODE.Unauthorized, message, options);
+    }
+}
+
+/** 403 Forbidden */
+export class ForbiddenError extends HttpError {
+    constructor(message: string = "Forbidden", options?: HttpErrorOptions) {
+        super(STATUS_CODE.Forbidden, message, options);
+    }
+}
+
+/** 404 Not Found */
+export class NotFoundError extends HttpError {
+    constructor(message: string = "Not Found", options?: HttpErrorOptions) {
+        super(STATUS_CODE.NotFound, message, options);
+    }
+}
+
+/** 409 Conflict */
+export class ConflictError extends HttpError {
+    constructor(message: string = "Conflict", options?: HttpErrorOptions) {
+        super(STATUS_CODE.Conflict, message, options);
+    }
+}
+
+/**
+ * Validation Error Object (422 status with the list of failing fields)
+ *
+ * @Author Marco
+ * @Repository https://github.com/metadream/deno-cross
+ * @Since 2025-06-02
+ */
+export class ValidationError extends HttpError {
+    errors: FieldError[];
+
+    constructor(errors: FieldError[], message: string = "Validation Failed") {
+        super(STATUS_CODE.UnprocessableEntity, message);
+        this.errors = errors;
+    }
+
+    override toJSON(): {} {
+        return { ...super.toJSON(), errors: this.errors };
+    }
+
+    override toProblem(instance?: string, production: boolean = this.production): ProblemDetails {
+        return { ...super.toProblem(instance, production), errors: this.errors };
     }
 
 }
\ No newline at end of file
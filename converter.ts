@@ -0,0 +1,69 @@
+import { STATUS_CODE } from "@std/http/status";
+import { HttpError } from "./context.ts";
+import { Parameter } from "./types.ts";
+
+const TRUTHY = ["true", "1", "yes", "on"];
+const FALSY = ["false", "0", "no", "off"];
+
+/**
+ * Convert a raw string argument (route or query parameter) to the declared type.
+ * Throws 400 HTTP error if the value is missing but required or cannot be converted.
+ */
+export function convertArgument(parameter: Parameter, value: unknown): unknown {
+    const { name, type, required } = parameter;
+
+    if (value === undefined || value === null || value === "") {
+        if (required) {
+            throw new HttpError(STATUS_CODE.BadRequest, `Missing required parameter "${name}"`);
+        }
+        return undefined;
+    }
+    if (typeof value !== "string") {
+        return value;
+    }
+
+    const converted = parameter.enum ? convertEnum(value, parameter.enum) : convertValue(value, type);
+    if (converted === undefined) {
+        const expected = parameter.enum ? "one of " + enumValues(parameter.enum).join(", ") : (type as Function).name.toLowerCase();
+        throw new HttpError(STATUS_CODE.BadRequest, `Invalid parameter "${name}": expected ${expected}`);
+    }
+    return converted;
+}
+
+/** Convert value by constructor type, return undefined if the value is invalid */
+export function convertValue(value: string, type: unknown): unknown {
+    switch (type) {
+        case Number: {
+            const num = value.trim() ? Number(value) : NaN;
+            return Number.isFinite(num) ? num : undefined;
+        }
+        case Boolean: {
+            const bool = value.toLowerCase();
+            return TRUTHY.includes(bool) ? true : FALSY.includes(bool) ? false : undefined;
+        }
+        case Date: {
+            const date = new Date(/^\d+$/.test(value) ? Number(value) : value);
+            return isNaN(date.getTime()) ? undefined : date;
+        }
+        case BigInt:
+            try {
+                return BigInt(value);
+            } catch {
+                return undefined;
+            }
+        default:
+            return value;
+    }
+}
+
+/** Convert value to a member of the enum object */
+function convertEnum(value: string, enumObject: Record<string, string | number>): unknown {
+    return enumValues(enumObject).find((v) => String(v) === value);
+}
+
+/** Get the values of enum object (excluding the reverse mapping of numeric enums) */
+export function enumValues(enumObject: Record<string, string | number>): (string | number)[] {
+    return Object.keys(enumObject)
+    .filter((k) => typeof enumObject[enumObject[k]] !== "number")
+    .map((k) => enumObject[k]);
+}
@@ -0,0 +1,73 @@
+import { assertEquals } from "@std/assert";
+import { convertValue } from "./converter.ts";
+import { Controller, Get, Param, Query } from "./decorators.ts";
+import { createApp } from "./mod.ts";
+import { TestClient } from "./testing.ts";
+
+enum Role { Admin = "admin", Guest = "guest" }
+enum Level { Low, High }
+
+@Controller("/args")
+class ArgumentController {
+
+    @Get("/:id")
+    typed(@Param id: number, @Query active: boolean, @Query since: Date, @Query big: bigint) {
+        return { id, active, since: since?.toISOString(), big: big?.toString() };
+    }
+
+    @Get("/enums/:role")
+    enums(@Param({ enum: Role }) role: Role, @Query({ enum: Level }) level: Level) {
+        return { role, level };
+    }
+
+    @Get("/required/")
+    required(@Query({ required: true }) page: number) {
+        return { page };
+    }
+}
+
+/** Create a client of the argument controller */
+function createClient(): TestClient {
+    const app = createApp({ controllers: [ArgumentController] });
+    app.errors({ logger: () => {} });
+    return new TestClient(app);
+}
+
+Deno.test("converter: values are converted by the constructor type", () => {
+    assertEquals(convertValue("42.5", Number), 42.5);
+    assertEquals(convertValue(" ", Number), undefined);
+    assertEquals(convertValue("Infinity", Number), undefined);
+    assertEquals(convertValue("Yes", Boolean), true);
+    assertEquals(convertValue("off", Boolean), false);
+    assertEquals(convertValue("maybe", Boolean), undefined);
+    assertEquals((convertValue("0", Date) as Date).getTime(), 0);
+    assertEquals(convertValue("not a date", Date), undefined);
+    assertEquals(convertValue("9007199254740993", BigInt), 9007199254740993n);
+    assertEquals(convertValue("1.5", BigInt), undefined);
+    assertEquals(convertValue("text", String), "text");
+});
+
+Deno.test("converter: route and query arguments are converted to the declared types", async () => {
+    const client = createClient();
+    const args = await client.get("/args/7").query({ active: "true", since: "2024-01-02T00:00:00Z", big: "12" })
+        .expectStatus(200).json();
+    assertEquals(args, { id: 7, active: true, since: "2024-01-02T00:00:00.000Z", big: "12" });
+    assertEquals(await client.get("/args/7").json(), { id: 7 });
+});
+
+Deno.test("converter: invalid and missing arguments are rejected with 400", async () => {
+    const client = createClient();
+    const problem = await client.get("/args/abc").expectStatus(400).json();
+    assertEquals(problem.detail, 'Invalid parameter "id": expected number');
+    await client.get("/args/7").query({ active: "maybe" }).expectStatus(400);
+    await client.get("/args/required/").expectStatus(400);
+    assertEquals(await client.get("/args/required/").query({ page: 3 }).json(), { page: 3 });
+});
+
+Deno.test("converter: enum arguments only accept members of the enum", async () => {
+    const client = createClient();
+    assertEquals(await client.get("/args/enums/admin").query({ level: 1 }).json(), { role: "admin", level: 1 });
+    const problem = await client.get("/args/enums/root").expectStatus(400).json();
+    assertEquals(problem.detail, 'Invalid parameter "role": expected one of admin, guest');
+    await client.get("/args/enums/guest").query({ level: "High" }).expectStatus(400);
+});
@@ -0,0 +1,90 @@
+import { assert, assertEquals } from "@std/assert";
+import { HttpContext } from "./context.ts";
+import { createApp } from "./mod.ts";
+import { TestClient } from "./testing.ts";
+import { CookieOptions } from "./types.ts";
+
+/** Create a client of the application which writes and reads a signed and an encrypted cookie */
+function createClient(options: CookieOptions, cookies?: Map<string, string>): TestClient {
+    const app = createApp();
+    app.cookies(options);
+    app.get("/write", async (ctx: HttpContext) => {
+        await ctx.cookie.setSigned("profile", { id: 1, role: "admin" });
+        await ctx.cookie.setEncrypted("token", "s3cr3t");
+        return "ok";
+    });
+    app.get("/read", async (ctx: HttpContext) => ({
+        profile: await ctx.cookie.getSigned("profile") ?? null,
+        token: await ctx.cookie.getEncrypted("token") ?? null,
+    }));
+
+    const client = new TestClient(app);
+    cookies?.forEach((value, name) => client.cookies.set(name, value));
+    return client;
+}
+
+Deno.test("cookie: signed cookies are readable but tamper-proof", async () => {
+    const client = createClient({ secret: "current" });
+    await client.get("/write").expectStatus(200);
+    const [payload, signature] = client.cookies.get("profile")!.split(".");
+    assertEquals(JSON.parse(atob(payload.replace(/-/g, "+").replace(/_/g, "/"))).v, { id: 1, role: "admin" });
+    assertEquals(await client.get("/read").json(), { profile: { id: 1, role: "admin" }, token: "s3cr3t" });
+
+    const forged = btoa(JSON.stringify({ v: { id: 1, role: "root" } })).replace(/=+$/, "");
+    client.cookies.set("profile", forged + "." + signature);
+    assertEquals((await client.get("/read").json()).profile, null);
+});
+
+Deno.test("cookie: encrypted cookies are unreadable and tamper-proof", async () => {
+    const client = createClient({ secret: "current" });
+    await client.get("/write");
+    const token = client.cookies.get("token")!;
+    assert(!token.includes("s3cr3t"));
+
+    const last = token.at(-2) === "A" ? "B" : "A";
+    client.cookies.set("token", token.slice(0, -2) + last + token.at(-1));
+    assertEquals((await client.get("/read").json()).token, null);
+});
+
+Deno.test("cookie: old secrets are accepted for reading after key rotation", async () => {
+    const before = createClient({ secret: "old" });
+    await before.get("/write");
+
+    const rotated = createClient({ secret: "new", oldSecrets: ["old"] }, before.cookies);
+    assertEquals(await rotated.get("/read").json(), { profile: { id: 1, role: "admin" }, token: "s3cr3t" });
+
+    // Cookies are written by the current secret, so they are still readable after the old secret is dropped.
+    await rotated.get("/write");
+    const current = createClient({ secret: "new" }, rotated.cookies);
+    assertEquals(await current.get("/read").json(), { profile: { id: 1, role: "admin" }, token: "s3cr3t" });
+
+    const dropped = createClient({ secret: "new" }, before.cookies);
+    assertEquals(await dropped.get("/read").json(), { profile: null, token: null });
+});
+
+Deno.test("cookie: expiration is signed with the value", async () => {
+    const app = createApp();
+    app.cookies({ secret: "current" });
+    app.get("/write", async (ctx: HttpContext) => {
+        await ctx.cookie.setSigned("short", "signed", { maxAge: 0.05 });
+        await ctx.cookie.setEncrypted("shortEncrypted", "encrypted", { maxAge: 0.05 });
+        return "ok";
+    });
+    app.get("/read", async (ctx: HttpContext) => [
+        await ctx.cookie.getSigned("short") ?? null, await ctx.cookie.getEncrypted("shortEncrypted") ?? null
+    ]);
+
+    const client = new TestClient(app);
+    await client.get("/write");
+    assertEquals(await client.get("/read").json(), ["signed", "encrypted"]);
+    // The client keeps sending the cookies after they expire, but they are not accepted.
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assertEquals(await client.get("/read").json(), [null, null]);
+});
+
+Deno.test("cookie: signing without a secret is an error", async () => {
+    const app = createApp();
+    app.errors({ logger: () => {} });
+    app.get("/write", async (ctx: HttpContext) => await ctx.cookie.setSigned("a", 1));
+    await new TestClient(app).get("/write").expectStatus(500);
+});
@@ -0,0 +1,77 @@
+import { decodeBase64Url, encodeBase64Url } from "@std/encoding";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const IV_LENGTH = 12;
+
+/** Derived keys cache by usage and secret */
+const keys = new Map<string, Promise<CryptoKey>>();
+
+/** Sign the data with HMAC-SHA256 and return the base64url signature */
+export async function sign(data: string, secret: string): Promise<string> {
+    const key = await deriveKey(secret, "sign");
+    const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(data));
+    return encodeBase64Url(signature);
+}
+
+/** Verify the signature with any of the secrets (supports key rotation) */
+export async function verify(data: string, signature: string, secrets: string[]): Promise<boolean> {
+    const bytes = decodeBase64Url(signature);
+    for (const secret of secrets) {
+        const key = await deriveKey(secret, "sign");
+        if (await crypto.subtle.verify("HMAC", key, bytes, encoder.encode(data))) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/** Encrypt the data with AES-GCM and return the base64url of iv and ciphertext */
+export async function encrypt(data: string, secret: string, additionalData: string): Promise<string> {
+    const key = await deriveKey(secret, "encrypt");
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv, additionalData: encoder.encode(additionalData) }, key, encoder.encode(data)
+    );
+    const result = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+    result.set(iv);
+    result.set(new Uint8Array(ciphertext), IV_LENGTH);
+    return encodeBase64Url(result);
+}
+
+/** Decrypt the data with any of the secrets, return undefined if it cannot be decrypted */
+export async function decrypt(token: string, secrets: string[], additionalData: string): Promise<string | undefined> {
+    const bytes = decodeBase64Url(token);
+    const iv = bytes.subarray(0, IV_LENGTH);
+    const ciphertext = bytes.subarray(IV_LENGTH);
+
+    for (const secret of secrets) {
+        const key = await deriveKey(secret, "encrypt");
+        try {
+            const data = await crypto.subtle.decrypt(
+                { name: "AES-GCM", iv, additionalData: encoder.encode(additionalData) }, key, ciphertext
+            );
+            return decoder.decode(data);
+        } catch {
+            // Try the next secret
+        }
+    }
+}
+
+/** Derive separate keys for signing and encryption from the secret with HKDF */
+function deriveKey(secret: string, usage: "sign" | "encrypt"): Promise<CryptoKey> {
+    const id = usage + ":" + secret;
+    let key = keys.get(id);
+    if (!key) {
+        key = crypto.subtle.importKey("raw", encoder.encode(secret), "HKDF", false, ["deriveKey"])
+        .then((material) => crypto.subtle.deriveKey(
+            { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(), info: encoder.encode("cross-cookie-" + usage) },
+            material,
+            usage === "sign" ? { name: "HMAC", hash: "SHA-256", length: 256 } : { name: "AES-GCM", length: 256 },
+            false,
+            usage === "sign" ? ["sign", "verify"] : ["encrypt", "decrypt"]
+        ));
+        keys.set(id, key);
+    }
+    return key;
+}
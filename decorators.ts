@@ -1,69 +1,30 @@
-import { Constructor, Parameter } from "./types.ts";
-import { Application, Registry } from "./mod.ts";
-import { defineMetadata, getMetadata, getAllMetadata, isClassConstructor } from "./reflection.ts";
-
-const app = new Application();
+import {
+    ComponentOptions, Constructor, InjectionToken, InterceptorOptions, InterceptorPhase, ParamOptions, RouteOptions,
+    UploadOptions
+} from "./types.ts";
+import { buildApp, discoverComponents } from "./bootstrap.ts";
+import { defineMetadata } from "./reflection.ts";
 
 /**
  * Class Decorator: Main application bootstrap
+ * A fresh application is created from all decorated classes and passed to the constructor.
+ * The application started by `app.run()` in the constructor is configured by the whole constructor.
  * @example `@Cross`
  */
 export function Cross(Cross: Constructor) {
+    const app = buildApp(discoverComponents());
     new Cross(app);  // Create a main application startup container
-    app.interceptors.sort((a, b) => a.order - b.order);  // Interceptor execution order
-
-    // All member instances are centrally injected after all decorators have been executed.
-    for (const [target, map] of getAllMetadata()) {
-        for (const [propertyKey, metadata] of map as Map<PropertyKey, any>) {
-            // Ignore the constructor
-            if (propertyKey == "constructor") continue;
-
-            // Inject instances for property members of Class type
-            const propertyType = metadata["design:type"];
-            if (isClassConstructor(propertyType)) {
-                const instance = Registry.get(target);
-                const injected = Registry.get(propertyType);
-                instance[propertyKey] = injected;
-            }
-        }
-    }
+    app.router.verify();  // Verify again with the routes added by the main class
+    app.container.bindConfiguration();  // Bind the configuration loaded by the main class
 }
 
 /**
  * Class Decorator: Middleware
+ * The interceptors and error handlers are global.
  * @example `@Middleware`
  */
 export function Middleware(target: Constructor) {
-    const middleware = Registry.register(target);
-
-    // Add middleware routing method
-    const map = getMetadata(target);
-    for (const [_propertyKey, metadata] of map as Map<PropertyKey, any>) {
-        // Ignore class members without descriptor property
-        // (only process metadata with handler)
-        if (!metadata.descriptor) continue;
-
-        // Only one global error-handling route allowed
-        if (metadata.isErrorRoute && app.errorRoute) {
-            throw new Error("Only a unique @ErrorHandler decorator can be defined.");
-        }
-
-        // Build route entity
-        // The current instance must be bound to call other properties or methods within the instance.
-        const route = {
-            order: metadata.order,  // Specific property of @Interceptor
-            template: metadata.template,  // Specific property of @ErrorHandler
-            handler: metadata.descriptor.bind(middleware),
-            parameters: getFuncParameters(metadata),
-        };
-
-        // Pass the middleware back to the main application
-        if (metadata.isErrorRoute) {
-            app.errorRoute = route;
-        } else {
-            app.interceptors.push(route);
-        }
-    }
+    defineMetadata(target, "constructor", { component: "middleware" });
 }
 
 /**
@@ -72,42 +33,93 @@ export function Middleware(target: Constructor) {
  */
 export function Controller(basePath: string = ""): Function {
     return (target: Constructor) => {
-        const controller = Registry.register(target);
-
-        // Add all dynamic routes within the controller
-        const map = getMetadata(target);
-        for (const [_propertyKey, metadata] of map as Map<PropertyKey, any>) {
-            // Ignore class members without descriptor property
-            // (only process metadata with handler)
-            if (!metadata.descriptor) continue;
-
-            // Add routes to the main application
-            // The current instance must be bound to call other properties or methods within the instance.
-            app.router.add({
-                path: basePath + metadata.path,
-                method: metadata.method,
-                template: metadata.template,
-                handler: metadata.descriptor.bind(controller),
-                parameters: getFuncParameters(metadata),
-            });
-        }
+        defineMetadata(target, "constructor", { component: "controller", basePath });
     };
 }
 
 /**
- * Class Decorator: Injectable components
+ * Class Decorator: Injectable components (singleton by default)
  * @example `@Component`
+ * @example `@Component({ scope: "request" })`
  */
-export function Component(target: Constructor) {
-    Registry.register(target);
+export function Component(options: Constructor | ComponentOptions): any {
+    if (typeof options === "function") {
+        defineMetadata(options, "constructor", { component: "component" });
+        return;
+    }
+    return (target: Constructor) => {
+        defineMetadata(target, "constructor", { component: "component", scope: options.scope });
+    };
+}
+
+/**
+ * Class Decorator: Typed configuration bound from the section of the prefix (the whole configuration if empty)
+ * Fields are converted to the declared types (or the types of initial values) and validated by constraint decorators
+ * when the application is bootstrapped, initial values are used as defaults, and undeclared keys are reported.
+ * The class is injectable like other components.
+ * @example `@ConfigurationProperties("database")`
+ */
+export function ConfigurationProperties(prefix: string = ""): Function {
+    return (target: Constructor) => {
+        defineMetadata(target, "constructor", { component: "component", configPrefix: prefix });
+    };
 }
 
 /**
  * Property Decorator: Inject component instances for properties
- * @example `@Autowired()`
+ * @example `@Autowired`
  */
 export function Autowired(target: object, propertyKey: PropertyKey) {
-    // Do nothing
+    defineMetadata(target.constructor, propertyKey, { autowired: true });
+}
+
+/**
+ * Parameter or Property Decorator: Inject the instance of the token
+ * Used for interfaces and values which have no class at runtime, and can be applied to constructor
+ * parameters, properties and parameters of handlers.
+ * @example `constructor(@Inject("UserRepository") private repository: UserRepository)`
+ * @example `@Inject(CONFIG) private config!: AppConfig`
+ */
+export function Inject(token: InjectionToken): Function {
+    return (target: any, propertyKey?: PropertyKey, index?: number | PropertyDescriptor) => {
+        if (typeof index !== "number") {
+            defineMetadata(target.constructor, propertyKey!, { autowired: true, injectToken: token });
+        } else if (propertyKey === undefined) {
+            defineMetadata(target, "constructor", { injectTokens: [{ index, token }] });
+        } else {
+            defineMetadata(target.constructor, propertyKey, { decoratedParams: [{ index, decorator: "Inject", token }] });
+        }
+    };
+}
+
+/**
+ * Property Decorator: Inject the configuration value by key path, converted to the declared type
+ * The application fails to start if the key is missing without default value.
+ * @example `@Value("db.pool.size") poolSize!: number`
+ * @example `@Value("db.host", "localhost") host!: string`
+ */
+export function Value(key: string, defaultValue?: unknown): PropertyDecorator {
+    return (target: object, propertyKey: PropertyKey) => {
+        defineMetadata(target.constructor, propertyKey, { configValue: { key, defaultValue } });
+    };
+}
+
+/**
+ * Method Decorator: Called after the singleton component is created and injected, when the application starts
+ * Async methods are awaited, and dependencies are initialized first.
+ * @example `@PostConstruct`
+ */
+export function PostConstruct(target: object, propertyKey: PropertyKey) {
+    defineMetadata(target.constructor, propertyKey, { postConstruct: true });
+}
+
+/**
+ * Method Decorator: Called before the singleton component is destroyed, when the application shuts down
+ * Async methods are awaited, and dependents are destroyed first.
+ * @example `@PreDestroy`
+ */
+export function PreDestroy(target: object, propertyKey: PropertyKey) {
+    defineMetadata(target.constructor, propertyKey, { preDestroy: true });
 }
 
 /**
@@ -121,80 +133,161 @@ export function Template(path: string): MethodDecorator {
 }
 
 /**
- * Method Decorator: Interceptor
- * @example `@Interceptor(1)`
+ * Method Decorator: Media types produced by the route, negotiated by the Accept header (406 if none is acceptable)
+ * The template of the route is rendered for `text/html`, and other media types are serialized by the serializers
+ * of the application (JSON by default). Routes of the same path can produce different media types.
+ * @example `@Produces("text/html", "application/json")`
+ */
+export function Produces(...mediaTypes: string[]): MethodDecorator {
+    return (target: object, propertyKey: PropertyKey, _: PropertyDescriptor) => {
+        defineMetadata(target.constructor, propertyKey, { produces: mediaTypes });
+    };
+}
+
+/**
+ * Method Decorator: Media types of request bodies consumed by the route (415 if the Content-Type does not match)
+ * @example `@Consumes("application/json", "multipart/*")`
  */
-export function Interceptor(order: number = 0): MethodDecorator {
+export function Consumes(...mediaTypes: string[]): MethodDecorator {
+    return (target: object, propertyKey: PropertyKey, _: PropertyDescriptor) => {
+        defineMetadata(target.constructor, propertyKey, { consumes: mediaTypes });
+    };
+}
+
+/**
+ * Method Decorator: Upload limits of the route (enforced while streaming the upload)
+ * @example `@Upload({ maxFileSize: 2 * 1024 * 1024, maxFiles: 1, mimeTypes: ["image/*"] })`
+ */
+export function Upload(options: UploadOptions): MethodDecorator {
+    return (target: object, propertyKey: PropertyKey, _: PropertyDescriptor) => {
+        defineMetadata(target.constructor, propertyKey, { upload: options });
+    };
+}
+
+/**
+ * Create interceptor decorators of the execution phase
+ * Interceptors in @Middleware classes are global, and the path patterns can be specified.
+ * Interceptors in other classes only apply to the controllers or routes using @UseInterceptors.
+ */
+const createInterceptor = (phase: InterceptorPhase) => (options: number | InterceptorOptions = 0): MethodDecorator => {
+    const { order = 0, name, include, exclude } = typeof options === "number" ? { order: options } : options;
     return (target: object, propertyKey: PropertyKey, descriptor: PropertyDescriptor) => {
         defineMetadata(target.constructor, propertyKey, {
-            descriptor: descriptor.value, order, decoratedParams: []
+            descriptor: descriptor.value, order, phase, interceptorName: name, include, exclude, decoratedParams: []
         });
     };
+};
+
+/**
+ * Class or Method Decorator: Apply interceptors of the classes to the controller or the route
+ * @example `@UseInterceptors(AuthGuard, LogGuard)`
+ */
+export function UseInterceptors(...classes: Constructor[]): Function {
+    return (target: any, propertyKey?: PropertyKey) => {
+        propertyKey
+            ? defineMetadata(target.constructor, propertyKey, { useInterceptors: classes })
+            : defineMetadata(target, "constructor", { useInterceptors: classes });
+    };
+}
+
+/**
+ * Class or Method Decorator: Skip the named global interceptors for the controller or the route
+ * @example `@SkipInterceptors("auth")`
+ */
+export function SkipInterceptors(...names: string[]): Function {
+    return (target: any, propertyKey?: PropertyKey) => {
+        propertyKey
+            ? defineMetadata(target.constructor, propertyKey, { skipInterceptors: names })
+            : defineMetadata(target, "constructor", { skipInterceptors: names });
+    };
 }
 
 /**
- * Method Decorator: Global error handler
+ * Class or Method Decorator: Skip response compression for the controller or the route
+ * (e.g. bodies compressed by the handler, or streams that must be flushed immediately)
+ * @example `@SkipCompression`
+ */
+export function SkipCompression(target: any, propertyKey?: PropertyKey) {
+    propertyKey
+        ? defineMetadata(target.constructor, propertyKey, { skipCompression: true })
+        : defineMetadata(target, "constructor", { skipCompression: true });
+}
+
+/**
+ * Method Decorator: Error handler
+ * Handlers in @Middleware classes are global, and handlers in @Controller classes only apply to the
+ * routes of the controller. The handler of the closest error class in the prototype chain is selected,
+ * and the handler without error class handles all errors.
  * @example `@ErrorHandler("error.html")`
+ * @example `@ErrorHandler(ValidationError, "invalid.html")`
  */
-export function ErrorHandler(template?: string): MethodDecorator {
+export function ErrorHandler(errorType?: Function | string, template?: string): MethodDecorator {
+    if (typeof errorType === "string") {
+        template = errorType;
+        errorType = undefined;
+    }
     return (target: object, propertyKey: PropertyKey, descriptor: PropertyDescriptor) => {
         defineMetadata(target.constructor, propertyKey, {
-            descriptor: descriptor.value, template, decoratedParams: [], isErrorRoute: true
+            descriptor: descriptor.value, template, errorType, decoratedParams: [], isErrorRoute: true
         });
     };
 }
 
-/** Create HTTP request method decorators */
-const createRequestMethod = (method: string) => (path: string = ""): MethodDecorator => {
+/**
+ * Create HTTP request method decorators
+ * The route name defaults to `ControllerName.methodName`.
+ */
+const createRequestMethod = (method: string) => (path: string = "", options?: RouteOptions): MethodDecorator => {
     return (target: object, propertyKey: PropertyKey, descriptor: PropertyDescriptor) => {
         defineMetadata(target.constructor, propertyKey, {
-            method, path, descriptor: descriptor.value
+            method, path, routeName: options?.name, descriptor: descriptor.value
         });
     };
 };
 
-/** Create request parameter decorators for routing methods */
-const createParamDecorator = (decorator: string): ParameterDecorator => {
-    return (target: Object, propertyKey: PropertyKey | undefined, index: number) => {
-        if (!propertyKey) return;
+/**
+ * Create request parameter decorators for routing methods
+ * The decorator can be used directly (`@Query name`) or with options (`@Query({ required: true }) name`).
+ * A string option is the form field name (`@UploadedFile("avatar") file`).
+ */
+const createParamDecorator = (decorator: string): Function => {
+    const define = (options?: ParamOptions): ParameterDecorator => {
+        return (target: Object, propertyKey: PropertyKey | undefined, index: number) => {
+            if (!propertyKey) return;
+            defineMetadata(target.constructor, propertyKey, {
+                // Define metadata: Decorated parameter indices, decorator names and options
+                decoratedParams: [{ ...options, index, decorator }]
+            });
+        };
+    };
+    return (...args: any[]) => {
+        if (typeof args[2] === "number") return (define() as Function)(...args);
+        return define(typeof args[0] === "string" ? { field: args[0] } : args[0]);
+    };
+};
+
+/** Create property decorators for validating DTO fields */
+const createConstraint = (name: string) => (value?: unknown): PropertyDecorator => {
+    return (target: object, propertyKey: PropertyKey) => {
         defineMetadata(target.constructor, propertyKey, {
-            // Define metadata: Decorated parameter indices and decorator names
-            decoratedParams: [{ index, decorator }]
+            constraints: [{ name, value }]
         });
     };
 };
 
-/** Get the parameter list defined in the method */
-function getFuncParameters(metadata: any): Parameter[] {
-    // Retrieve parameter types from metadata and parse parameter names
-    const paramTypes = metadata["design:paramtypes"];
-    const paramNames = parseParameterNames(metadata.descriptor);
-
-    // Merge parameters with decorators
-    return paramTypes.map((type: any, index: number): Parameter => {
-        let parameter: Partial<Parameter> = metadata?.decoratedParams?.find((v: any) => v.index === index);
-        parameter ? parameter.type = type : parameter = { index, type };
-        parameter.name = paramNames[index];
-        return parameter as Parameter;
-    });
-}
-
-/** Parse parameter names defined in the method (some special cases may not be parsed) */
-function parseParameterNames(func: Function): string[] {
-    const fnStr = func.toString();
-    const paramSection = fnStr.slice(fnStr.indexOf("(") + 1, fnStr.indexOf(")"));
-    return paramSection.split(",").map(p => p.trim().split("=")[0].trim());
-}
-
 /**
  * Parameter Decorator: Parse parameters defined in the pathname
+ * The value is converted to the declared type (number, boolean, Date, bigint or enum).
  * @example `@Param id:number`
+ * @example `@Param({ enum: Role }) role:Role`
  */
 export const Param: Function = createParamDecorator("Param");
 
 /**
  * Parameter Decorator: Parse parameters defined in the query string
+ * The value is converted to the declared type (number, boolean, Date, bigint or enum).
  * @example `@Query id:number`
+ * @example `@Query({ required: true }) page:number`
  */
 export const Query: Function = createParamDecorator("Query");
 
@@ -204,9 +297,56 @@ export const Query: Function = createParamDecorator("Query");
  */
 export const Body: Function = createParamDecorator("Body");
 
+/**
+ * Parameter Decorator: Inject the result of the handler into after interceptors
+ * @example `@Result result:unknown`
+ */
+export const Result: Function = createParamDecorator("Result");
+
+/**
+ * Parameter Decorator: Inject the function to invoke the next interceptor or handler into around interceptors
+ * @example `@Next next:() => Promise<unknown>`
+ */
+export const Next: Function = createParamDecorator("Next");
+
+/**
+ * Parameter Decorator: Inject the uploaded file of the form field (defaults to the parameter name)
+ * @example `@UploadedFile("avatar") file:MultipartFile`
+ */
+export const UploadedFile: Function = createParamDecorator("UploadedFile");
+
+/**
+ * Parameter Decorator: Inject all uploaded files, or the files of the specified form field
+ * @example `@UploadedFiles("photos") files:MultipartFile[]`
+ */
+export const UploadedFiles: Function = createParamDecorator("UploadedFiles");
+
+/**
+ * Method Decorator: Interceptor executed before the handler
+ * Returning a value short-circuits the handler with the value.
+ * @example `@Interceptor(1)`
+ * @example `@Interceptor({ order: 1, name: "auth", include: ["/admin/*"], exclude: ["/admin/login"] })`
+ */
+export const Interceptor: (options?: number | InterceptorOptions) => MethodDecorator = createInterceptor("before");
+
+/**
+ * Method Decorator: Interceptor executed after the handler
+ * The result is injected by `@Result`, and returning a value replaces the result.
+ * @example `@AfterInterceptor(1)`
+ */
+export const AfterInterceptor: (options?: number | InterceptorOptions) => MethodDecorator = createInterceptor("after");
+
+/**
+ * Method Decorator: Interceptor wrapping the handler
+ * The handler is invoked by calling the function injected by `@Next`.
+ * @example `@AroundInterceptor(1)`
+ */
+export const AroundInterceptor: (options?: number | InterceptorOptions) => MethodDecorator = createInterceptor("around");
+
 /**
  * Method decorator: Create a GET route request
  * @example `@Get("/path/:param?query=keyword")`
+ * @example `@Get("/users/:id", { name: "user.show" })`
  */
 export const Get: Function = createRequestMethod("GET");
 
@@ -244,4 +384,59 @@ export const Head: Function = createRequestMethod("HEAD");
  * Method decorator: Create a OPTIONS route request
  * @example `@Options("/path/:param")`
  */
-export const Options: Function = createRequestMethod("OPTIONS");
\ No newline at end of file
+export const Options: Function = createRequestMethod("OPTIONS");
+
+/**
+ * Property Decorator: The DTO field must not be undefined, null or empty string
+ * @example `@Required`
+ */
+export const Required: Function = createConstraint("required")();
+
+/**
+ * Property Decorator: The DTO field must be a valid email address
+ * @example `@Email`
+ */
+export const Email: Function = createConstraint("email")();
+
+/**
+ * Property Decorator: Minimum length of the DTO string or array field
+ * @example `@MinLength(6)`
+ */
+export const MinLength: Function = createConstraint("minLength");
+
+/**
+ * Property Decorator: Maximum length of the DTO string or array field
+ * @example `@MaxLength(20)`
+ */
+export const MaxLength: Function = createConstraint("maxLength");
+
+/**
+ * Property Decorator: The DTO field must match the regular expression
+ * @example `@Pattern(/^\d+$/)`
+ */
+export const Pattern: Function = createConstraint("pattern");
+
+/**
+ * Property Decorator: Minimum value of the DTO number field
+ * @example `@Min(0)`
+ */
+export const Min: Function = createConstraint("min");
+
+/**
+ * Property Decorator: Maximum value of the DTO number field
+ * @example `@Max(100)`
+ */
+export const Max: Function = createConstraint("max");
+
+/**
+ * Property Decorator: The DTO field must be one of the values of the enum object or array
+ * @example `@Enum(Role)`
+ * @example `@Enum(["debug", "info", "warn", "error"])`
+ */
+export const Enum: Function = createConstraint("enum");
+
+/**
+ * Property Decorator: Nested DTO class of the field (required for arrays of DTOs)
+ * @example `@Nested(Address) addresses: Address[]`
+ */
+export const Nested: Function = createConstraint("nested");
\ No newline at end of file
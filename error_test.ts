@@ -0,0 +1,178 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { ConflictError, HttpError, HttpResponse, NotFoundError } from "./context.ts";
+import { Controller, ErrorHandler, Get, Middleware } from "./decorators.ts";
+import { createApp } from "./mod.ts";
+import { TestClient } from "./testing.ts";
+
+class PaymentError extends Error {
+    status = 402;
+}
+
+class CardDeclinedError extends PaymentError {
+    constructor(public card: string) {
+        super("Card declined");
+    }
+}
+
+@Middleware
+class ErrorMiddleware {
+
+    @ErrorHandler(PaymentError)
+    payment(error: HttpError, original: PaymentError) {
+        return { handler: "payment", status: error.status, original: original.constructor.name };
+    }
+
+    @ErrorHandler(TypeError)
+    type(original: TypeError, response: HttpResponse) {
+        response.status = 400;
+        return { handler: "type", message: original.message };
+    }
+
+    @ErrorHandler()
+    all(error: HttpError) {
+        return { handler: "all", status: error.status };
+    }
+}
+
+@Controller("/shop")
+class ShopController {
+
+    @Get("/declined")
+    declined() {
+        throw new CardDeclinedError("visa");
+    }
+
+    @Get("/type")
+    type() {
+        throw new TypeError("Bad type");
+    }
+
+    @Get("/range")
+    range() {
+        throw new RangeError("Out of range");
+    }
+}
+
+@Controller("/checkout")
+class CheckoutController {
+
+    @Get("/declined")
+    declined() {
+        throw new CardDeclinedError("amex");
+    }
+
+    @Get("/type")
+    type() {
+        throw new TypeError("Bad type");
+    }
+
+    @ErrorHandler(CardDeclinedError)
+    cardDeclined(original: CardDeclinedError) {
+        return { handler: "checkout", card: original.card };
+    }
+}
+
+/** Create a client of the application with global and controller error handlers */
+function createClient(): TestClient {
+    const app = createApp({ controllers: [ShopController, CheckoutController], middlewares: [ErrorMiddleware] });
+    app.errors({ logger: () => {} });
+    return new TestClient(app);
+}
+
+Deno.test("error: the handler of the closest error class is selected", async () => {
+    const client = createClient();
+    const payment = await client.get("/shop/declined").expectStatus(402).json();
+    assertEquals(payment, { handler: "payment", status: 402, original: "CardDeclinedError" });
+    assertEquals(await client.get("/shop/type").expectStatus(400).json(), { handler: "type", message: "Bad type" });
+    assertEquals(await client.get("/shop/range").expectStatus(500).json(), { handler: "all", status: 500 });
+    assertEquals(await client.get("/shop/missing").expectStatus(404).json(), { handler: "all", status: 404 });
+});
+
+Deno.test("error: controller handlers take precedence over global ones for its routes", async () => {
+    const client = createClient();
+    const declined = await client.get("/checkout/declined").expectStatus(402).json();
+    assertEquals(declined, { handler: "checkout", card: "amex" });
+    assertEquals(await client.get("/checkout/type").expectStatus(400).json(), { handler: "type", message: "Bad type" });
+    assertEquals((await client.get("/shop/declined").json()).handler, "payment");
+});
+
+Deno.test("error: only a unique handler is allowed for each error class in the same scope", () => {
+    @Middleware
+    class DuplicateMiddleware {
+        @ErrorHandler(TypeError)
+        first() {}
+
+        @ErrorHandler(TypeError)
+        second() {}
+    }
+    assertThrows(() => createApp({ middlewares: [DuplicateMiddleware] }), Error, "unique @ErrorHandler");
+});
+
+@Controller("/errors")
+class ProblemController {
+
+    @Get("/internal")
+    internal() {
+        throw new Error("Database password is wrong");
+    }
+
+    @Get("/exposed")
+    exposed() {
+        throw new HttpError(502, "Payment service unavailable", { expose: true, code: "PAYMENT_DOWN" });
+    }
+
+    @Get("/conflict")
+    conflict() {
+        throw new ConflictError("Name already taken", { code: "NAME_TAKEN", extensions: { name: "alice" } });
+    }
+}
+
+@Controller("/json")
+class JsonErrorController {
+
+    @Get("/internal")
+    internal() {
+        throw new Error("Database password is wrong");
+    }
+
+    @ErrorHandler()
+    error(error: HttpError) {
+        return error.toJSON();
+    }
+}
+
+/** Create a client of the application responding errors in the mode */
+function createProblemClient(production: boolean): TestClient {
+    const app = createApp({ controllers: [ProblemController, JsonErrorController] });
+    app.errors({ production, logger: () => {} });
+    return new TestClient(app);
+}
+
+Deno.test("error: errors are responded as problem details", async () => {
+    const client = createProblemClient(false);
+    const response = await client.get("/errors/conflict").expectStatus(409).response();
+    assertEquals(response.headers.get("Content-Type"), "application/problem+json; charset=utf-8");
+    assertEquals(await response.json(), {
+        name: "alice", type: "about:blank", title: "Conflict", status: 409, detail: "Name already taken",
+        instance: "/errors/conflict", code: "NAME_TAKEN"
+    });
+    assertEquals((await client.get("/errors/internal").expectStatus(500).json()).detail, "Database password is wrong");
+});
+
+Deno.test("error: messages of 5xx errors are hidden in production mode unless exposed", async () => {
+    const client = createProblemClient(true);
+    const internal = await client.get("/errors/internal").expectStatus(500).json();
+    assertEquals(internal, {
+        type: "about:blank", title: "Internal Server Error", status: 500, instance: "/errors/internal"
+    });
+    assertEquals((await client.get("/errors/exposed").expectStatus(502).json()).detail, "Payment service unavailable");
+    assertEquals((await client.get("/errors/conflict").json()).detail, "Name already taken");
+});
+
+Deno.test("error: serialized errors in custom handlers follow the production mode", async () => {
+    const production = await createProblemClient(true).get("/json/internal").expectStatus(500).json();
+    assertEquals(production, { status: 500, message: "Internal Server Error" });
+    const development = await createProblemClient(false).get("/json/internal").json();
+    assertEquals(development.message, "Database password is wrong");
+    assertEquals(JSON.stringify(new NotFoundError("User not found")), '{"status":404,"message":"User not found"}');
+});
@@ -0,0 +1,173 @@
+import { assertEquals } from "@std/assert";
+import { HttpRequest, HttpResponse } from "./context.ts";
+import {
+    AfterInterceptor, AroundInterceptor, Controller, Get, Interceptor, Middleware, Next, Result, SkipInterceptors,
+    UseInterceptors
+} from "./decorators.ts";
+import { createApp } from "./mod.ts";
+import { TestClient } from "./testing.ts";
+
+/** Names of the interceptors executed by the request */
+function trace(response: HttpResponse, name: string): void {
+    response.headers.append("X-Trace", name);
+}
+
+@Middleware
+class GlobalMiddleware {
+
+    @Interceptor({ order: 2, name: "auth", include: ["/admin/*"], exclude: ["/admin/login"] })
+    auth(response: HttpResponse) {
+        trace(response, "auth");
+    }
+
+    @Interceptor(0)
+    log(response: HttpResponse) {
+        trace(response, "log");
+    }
+}
+
+class AuditGuard {
+    @Interceptor(1)
+    audit(response: HttpResponse, request: HttpRequest) {
+        trace(response, "audit:" + request.pathname);
+    }
+}
+
+class RateGuard {
+    @Interceptor(3)
+    rate(response: HttpResponse) {
+        trace(response, "rate");
+    }
+}
+
+@Controller("/admin")
+@UseInterceptors(AuditGuard)
+class AdminController {
+
+    @Get("/users")
+    users() {}
+
+    @Get("/login")
+    login() {}
+
+    @Get("/reports")
+    @UseInterceptors(RateGuard)
+    reports() {}
+
+    @Get("/health")
+    @SkipInterceptors("auth", "log")
+    health() {}
+}
+
+@Controller("/public")
+class PublicController {
+
+    @Get("/home")
+    home() {}
+}
+
+/** Request the path and return the names of executed interceptors */
+async function traceOf(path: string): Promise<string | null> {
+    const app = createApp({ controllers: [AdminController, PublicController], middlewares: [GlobalMiddleware] });
+    const response = await new TestClient(app).get(path).response();
+    return response.headers.get("X-Trace");
+}
+
+Deno.test("interceptor: global interceptors apply to included and not excluded paths", async () => {
+    assertEquals(await traceOf("/admin/users"), "log, audit:/admin/users, auth");
+    assertEquals(await traceOf("/admin/login"), "log, audit:/admin/login");
+    assertEquals(await traceOf("/public/home"), "log");
+});
+
+Deno.test("interceptor: scoped interceptors apply to their controllers and routes in order", async () => {
+    assertEquals(await traceOf("/admin/reports"), "log, audit:/admin/reports, auth, rate");
+    assertEquals(await traceOf("/public/home"), "log");
+});
+
+Deno.test("interceptor: named global interceptors can be skipped by routes", async () => {
+    assertEquals(await traceOf("/admin/health"), "audit:/admin/health");
+});
+
+Deno.test("interceptor: classes without @Middleware are not global", async () => {
+    @Controller("/other")
+    @UseInterceptors(AuditGuard)
+    class OtherController {
+        @Get("/")
+        index() {}
+    }
+    const app = createApp({ controllers: [PublicController, OtherController], components: [RateGuard] });
+    const client = new TestClient(app);
+    assertEquals((await client.get("/public/home").response()).headers.get("X-Trace"), null);
+    assertEquals((await client.get("/other/").response()).headers.get("X-Trace"), "audit:/other/");
+});
+
+@Middleware
+class WrappingMiddleware {
+
+    @Interceptor(0)
+    cache(request: HttpRequest) {
+        if (request.query.cached) return { cached: true };
+    }
+
+    @AroundInterceptor(1)
+    async outer(@Next next: () => Promise<unknown>, response: HttpResponse) {
+        trace(response, "outer:before");
+        const result = await next();
+        trace(response, "outer:after");
+        return result;
+    }
+
+    @AroundInterceptor(2)
+    async inner(@Next next: () => Promise<unknown>, response: HttpResponse) {
+        trace(response, "inner:before");
+        return { inner: await next() };
+    }
+
+    @AfterInterceptor({ order: 1, exclude: ["/wrap/raw"] })
+    wrap(@Result result: unknown) {
+        return { code: 0, data: result };
+    }
+
+    @AfterInterceptor(2)
+    stamp(@Result result: unknown, response: HttpResponse) {
+        response.headers.set("X-Result", JSON.stringify(result));
+    }
+}
+
+@Controller("/wrap")
+class WrapController {
+
+    @Get("/")
+    index(response: HttpResponse) {
+        trace(response, "handler");
+        return { n: 1 };
+    }
+
+    @Get("/raw")
+    raw() {
+        return "raw";
+    }
+}
+
+/** Create a client of the application with wrapping interceptors */
+function createWrapClient(): TestClient {
+    return new TestClient(createApp({ controllers: [WrapController], middlewares: [WrappingMiddleware] }));
+}
+
+Deno.test("interceptor: around interceptors wrap the handler from the outermost", async () => {
+    const response = await createWrapClient().get("/wrap/").response();
+    assertEquals(response.headers.get("X-Trace"), "outer:before, inner:before, handler, outer:after");
+    assertEquals(await response.json(), { code: 0, data: { inner: { n: 1 } } });
+});
+
+Deno.test("interceptor: after interceptors replace the result in order", async () => {
+    const response = await createWrapClient().get("/wrap/raw").response();
+    assertEquals(await response.json(), { inner: "raw" });
+    assertEquals(response.headers.get("X-Result"), '{"inner":"raw"}');
+});
+
+Deno.test("interceptor: returning a value from a before interceptor short-circuits the handler", async () => {
+    const response = await createWrapClient().get("/wrap/").query({ cached: 1 }).response();
+    assertEquals(response.headers.get("X-Trace"), null);
+    assertEquals(await response.json(), { code: 0, data: { cached: true } });
+});
@@ -0,0 +1,78 @@
+import { assertEquals } from "@std/assert";
+import { Component, PostConstruct, PreDestroy } from "./decorators.ts";
+import { createApp } from "./mod.ts";
+
+const events: string[] = [];
+
+@Component
+class Database {
+
+    @PostConstruct
+    async connect() {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        events.push("database:connect");
+    }
+
+    @PreDestroy
+    close() {
+        events.push("database:close");
+    }
+}
+
+@Component
+class Repository {
+    constructor(public database: Database) {}
+
+    @PostConstruct
+    init() {
+        events.push("repository:init");
+    }
+
+    @PreDestroy
+    async destroy() {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        events.push("repository:destroy");
+    }
+}
+
+Deno.test("lifecycle: components are initialized in dependency order before start hooks, only once", async () => {
+    events.length = 0;
+    const app = createApp({ components: [Repository, Database] });
+    app.errors({ logger: () => {} });
+    app.onStart(() => events.push("start"));
+    assertEquals(events, []);
+
+    await Promise.all([app.start(), app.start()]);
+    await app.handle(new Request("http://localhost/"));
+    assertEquals(events, ["database:connect", "repository:init", "start"]);
+});
+
+Deno.test("lifecycle: shutdown calls hooks, then destroys components in reverse dependency order", async () => {
+    events.length = 0;
+    const app = createApp({ components: [Repository, Database] });
+    await app.start();
+    app.onShutdown(() => events.push("shutdown"));
+    events.length = 0;
+
+    await Promise.all([app.shutdown(), app.shutdown()]);
+    assertEquals(events, ["shutdown", "repository:destroy", "database:close"]);
+});
+
+Deno.test("lifecycle: errors of shutdown hooks do not stop releasing other resources", async () => {
+    events.length = 0;
+    const app = createApp({ components: [Database] });
+    await app.start();
+    app.onShutdown(() => {
+        throw new Error("Hook failed");
+    });
+    app.onShutdown(() => events.push("shutdown"));
+
+    const error = console.error;
+    console.error = () => {};
+    try {
+        await app.shutdown();
+    } finally {
+        console.error = error;
+    }
+    assertEquals(events, ["database:connect", "shutdown", "database:close"]);
+});
@@ -1,11 +1,37 @@
 import { STATUS_CODE } from "@std/http/status";
-import { contentType } from "@std/media-types";
-import { resolve, normalize, extname } from "@std/path";
-import { parse as parseYaml } from "@std/yaml";
-import { Config, Constructor, BaseRoute, DynamicRoute, ErrorRoute, InterceptorRoute, RouteHandler } from "./types.ts";
-import { HttpContext, HttpCookie, HttpError, HttpRequest, HttpResponse, HttpSession } from "./context.ts";
-import { Router } from "./router.ts";
+import { resolve } from "@std/path";
+import {
+    Config, Constructor, BaseRoute, DynamicRoute, ErrorRoute, InterceptorRoute, RouteHandler, RouteMatch, SessionOptions,
+    CookieOptions, RouteInfo, ProblemOptions, ResourceMount, ResourceOptions, CompressionOptions
+} from "./types.ts";
+import { HttpContext, HttpCookie, HttpError, HttpRequest, HttpResponse, HttpSession, NotFoundError } from "./context.ts";
+import { describeRoute, Router } from "./router.ts";
 import { Engine } from "./engine.ts";
+import { convertArgument } from "./converter.ts";
+import { isValidatable, validate } from "./validator.ts";
+import { MemoryStore } from "./session.ts";
+import { Container } from "./container.ts";
+import { loadConfig, mergeConfig } from "./config.ts";
+import { serveResource } from "./static.ts";
+
+export { createApp } from "./bootstrap.ts";
+
+/** Extra values injected into interceptors and error handlers */
+type InjectExtras = {
+    error?: HttpError;
+    original?: unknown;
+    result?: unknown;
+    next?: () => Promise<unknown>;
+}
+
+/** Connection information of requests handled in-process */
+const LOCAL_INFO = {
+    remoteAddr: { transport: "tcp", hostname: "127.0.0.1", port: 0 },
+    completed: Promise.resolve()
+} as Deno.ServeHandlerInfo;
+
+/** Signals to shut down the application gracefully (SIGTERM is not supported on Windows) */
+const SHUTDOWN_SIGNALS: Deno.Signal[] = Deno.build.os === "windows" ? ["SIGINT"] : ["SIGINT", "SIGTERM"];
 
 /**
  * Cross Framework Application
@@ -18,34 +44,158 @@ export class Application {
 
     router: Router = new Router();
     engine: Engine = new Engine();
+    container: Container = new Container();
     interceptors: InterceptorRoute[] = [];
-    errorRoute?: ErrorRoute;
+    errorRoutes: ErrorRoute[] = [];
 
     private serveOptions = {
         hostname: "0.0.0.0",
         port: 3000
     }
-    private resourceOptions = {
-        fsPath: null as string | null,
-        fsRoot: null as string | null
+    private resourceMounts: ResourceMount[] = [];
+    private problemOptions: ProblemOptions = {
+        production: false,
+        logger: (error: HttpError, request: HttpRequest) => {
+            const message = `\x1b[31m[CROSS ERROR]\x1b[0m ${request.method} ${request.pathname} ${error.status}`;
+            // Server errors are logged with the stack trace and the cause, client errors in one line.
+            error.status >= 500 ? console.error(message, error) : console.warn(message, error.message);
+        }
+    }
+    private lifecycle = {
+        startHooks: [] as (() => unknown)[],
+        shutdownHooks: [] as (() => unknown)[],
+        started: undefined as Promise<void> | undefined,
+        stopped: undefined as Promise<void> | undefined,
+        server: undefined as Deno.HttpServer | undefined,
+        sweeper: undefined as ReturnType<typeof setInterval> | undefined,
+        signalListener: () => {
+            this.shutdown().finally(() => Deno.exit());
+        }
+    }
+    private serializers = new Map<string, (data: unknown) => BodyInit | Promise<BodyInit>>([
+        ["application/json", (data) => JSON.stringify(data)]
+    ]);
+    private cookieOptions: CookieOptions = {};
+    private compressionOptions: CompressionOptions = {
+        enabled: true,
+        threshold: 1024
     }
+    private sessionOptions: SessionOptions = {
+        store: new MemoryStore(),
+        maxAge: 3600,  // seconds (default expired in 1 hour)
+        absoluteTimeout: 0,
+        cookieName: "SESSION_ID",
+        cookie: { path: "/", httpOnly: true, sameSite: "Lax" }
+    }
+
+    constructor() {
+        // The application itself and the configuration can be injected.
+        this.container.set(Application, this);
+        this.container.provide(Config);
+
+        // Expose reverse URL generation to all templates.
+        this.engine.import({ url: this.url.bind(this) });
+    }
+
+    /**
+     * Start the built-in Deno web server after the application is started.
+     * The application starts after the current synchronous code (e.g. the constructor of the main class),
+     * so it can still be configured after `run()` is called. The process exits if the application fails to start
+     * (e.g. a @PostConstruct method fails), call `await app.start()` before to handle the error instead.
+     * The server is shut down gracefully on SIGINT or SIGTERM.
+     */
+    async run(hostOrPort?: string | number, port?: number): Promise<void> {
+        await Promise.resolve();
+        try {
+            await this.start();
+        } catch (err) {
+            console.error("\x1b[31m[CROSS ERROR]\x1b[0m Failed to start the application:", err);
+            Deno.exit(1);
+        }
 
-    /** Start the built-in Deno web server. */
-    run(hostOrPort?: string | number, port?: number): void {
         // Start parameters override.
         const options = {
             hostname: typeof hostOrPort === "string" ? hostOrPort : this.serveOptions.hostname,
             port: typeof hostOrPort === "number" ? hostOrPort : (port ?? this.serveOptions.port),
             onListen: this.onListen.bind(this)
         };
-        // Handle static resources and route requests.
-        Deno.serve(options, (req: Request, info: Deno.ServeHandlerInfo) => {
-            const ctx = new HttpContext(req, info);
-            return this.isResourceRequest(ctx.request.pathname)
-                ? this.handleResource(ctx.request) : this.handleRequest(ctx);
-        });
+        // Automatically clean up expired sessions.
+        this.lifecycle.sweeper = setInterval(() => this.sessionOptions.store.sweep().catch(console.error), 60 * 1000);
+
+        this.lifecycle.server = Deno.serve(options, this.handle);
+        for (const signal of SHUTDOWN_SIGNALS) {
+            Deno.addSignalListener(signal, this.lifecycle.signalListener);
+        }
+    }
+
+    /**
+     * Start the application (only once): verify that produced media types can be serialized, call @PostConstruct
+     * methods of components in dependency order, then the start hooks. It is called by `run()`, and by `handle()`
+     * on the first request.
+     */
+    start(): Promise<void> {
+        return this.lifecycle.started ??= (async () => {
+            this.verifySerializers();
+            await this.container.init();
+            for (const hook of this.lifecycle.startHooks) await hook();
+        })();
+    }
+
+    /**
+     * Shut down the application (only once): stop accepting connections, wait for in-flight requests
+     * (at most the timeout), then call the shutdown hooks and @PreDestroy methods of components.
+     */
+    shutdown(timeout: number = 10 * 1000): Promise<void> {
+        return this.lifecycle.stopped ??= (async () => {
+            const { server, sweeper, shutdownHooks, signalListener } = this.lifecycle;
+            for (const signal of SHUTDOWN_SIGNALS) {
+                Deno.removeSignalListener(signal, signalListener);
+            }
+            clearInterval(sweeper);
+
+            // Stop waiting for in-flight requests after the timeout.
+            if (server) {
+                let timer: ReturnType<typeof setTimeout> | undefined;
+                const expired = new Promise<void>((resolve) => timer = setTimeout(() => {
+                    console.warn(`\x1b[33m[CROSS WARN]\x1b[0m In-flight requests are not finished in ${timeout}ms`);
+                    resolve();
+                }, timeout));
+                await Promise.race([server.shutdown(), expired]);
+                clearTimeout(timer);
+            }
+
+            // Errors of hooks do not stop releasing other resources.
+            for (const hook of shutdownHooks) {
+                await Promise.resolve().then(hook).catch((err) => console.error("\x1b[31m[CROSS ERROR]\x1b[0m", err));
+            }
+            await this.container.destroy();
+        })();
     }
 
+    /** Add a hook called when the application starts (after components are initialized). */
+    onStart(hook: () => unknown) {
+        this.lifecycle.startHooks.push(hook);
+    }
+
+    /** Add a hook called when the application shuts down (before components are destroyed). */
+    onShutdown(hook: () => unknown) {
+        this.lifecycle.shutdownHooks.push(hook);
+    }
+
+    /**
+     * Handle static resources and route requests without starting the server, so it can be used as a `fetch`
+     * handler (bound to the application, e.g. `Deno.serve(app.handle)`) or in tests.
+     * The application is started on the first request.
+     */
+    handle = async (req: Request, info: Deno.ServeHandlerInfo = LOCAL_INFO): Promise<Response> => {
+        await this.start();
+        const ctx = new HttpContext(req, info, {
+            cookie: this.cookieOptions, session: this.sessionOptions, compression: this.compressionOptions
+        });
+        const mount = this.findResourceMount(ctx.request.pathname);
+        return mount ? this.handleResource(ctx, mount) : this.handleRequest(ctx);
+    };
+
     get(path: string, handler: Function) {
         this.addSimpleRoute("GET", path, handler);
     }
@@ -74,30 +224,33 @@ export class Application {
         this.addSimpleRoute("OPTIONS", path, handler);
     }
 
-    /** Load configuration file as injectable component. */
-    config(key:string, path?: string) {
+    /**
+     * Load configuration file as injectable component.
+     * The file is layered with the file of the active profile and environment variables (see `loadConfig`).
+     * Files loaded after bootstrap are bound and validated again at once.
+     */
+    config(key: string, path?: string) {
         let hasKey = true;
         if (path === undefined) {
             path = key;
             hasKey = false;
         }
 
-        const content = Deno.readTextFileSync(resolve(path));
-        const data:any = parseYaml(content);
-        const config = Registry.register(Config);
-        this.config = config;
+        const data = loadConfig(path, hasKey ? key.split(".") : []);
+        const config = this.container.get(Config);
 
         if (hasKey) {
-            config[key] = data;
+            config[key] = mergeConfig(config[key], data);
         } else {
-            if (Array.isArray(data)) {
+            if (Array.isArray(data) || data === null || typeof data !== "object") {
                 throw new Error("A plain array as configuration must specify a key");
             } else {
                 for (const [k, v] of Object.entries(data)) {
-                    config[k] = v;
+                    config[k] = mergeConfig(config[k], v);
                 }
             }
         }
+        this.container.rebindConfiguration();
     }
 
     /** Set the template root directory and global properties available in templates. */
@@ -106,16 +259,86 @@ export class Application {
         this.engine.import(attributes);
     }
 
-    /** Set static resource route and real directory. */
-    resources(fsPath: string, fsRoot: string) {
-        this.resourceOptions.fsPath = fsPath.endsWith("/") ? fsPath : fsPath + "/";
-        this.resourceOptions.fsRoot = normalize(fsRoot);
+    /** Mount static resource route to the real directory with options, multiple routes can be mounted. */
+    resources(fsPath: string, fsRoot: string, options: ResourceOptions = {}) {
+        fsPath = fsPath.endsWith("/") ? fsPath : fsPath + "/";
+        this.resourceMounts = this.resourceMounts.filter((mount) => mount.fsPath !== fsPath);
+        this.resourceMounts.push({ fsPath, fsRoot: resolve(fsRoot), options });
+        // The longest route takes precedence
+        this.resourceMounts.sort((a, b) => b.fsPath.length - a.fsPath.length);
+    }
+
+    /** Set production mode (hide messages of 5xx errors) and the error logger. */
+    errors(options: Partial<ProblemOptions>) {
+        Object.assign(this.problemOptions, options);
+    }
+
+    /** Register the serializer of the media type produced by routes (`application/json` is registered by default). */
+    serializer(mediaType: string, serialize: (data: unknown) => BodyInit | Promise<BodyInit>) {
+        this.serializers.set(mediaType.toLowerCase(), serialize);
+    }
+
+    /** Set the secret (and old secrets for key rotation) of signed and encrypted cookies. */
+    cookies(options: CookieOptions) {
+        Object.assign(this.cookieOptions, options);
+    }
+
+    /** Enable or disable response compression of dynamic routes, and set the minimum size of compressed bodies. */
+    compression(options: Partial<CompressionOptions>) {
+        Object.assign(this.compressionOptions, options);
+    }
+
+    /** Set session store, timeouts and cookie options. */
+    sessions(options: Partial<SessionOptions>) {
+        const cookie = { ...this.sessionOptions.cookie, ...options.cookie };
+        Object.assign(this.sessionOptions, options, { cookie });
+    }
+
+    /** Build the URL of the named route with parameters and query string. */
+    url(name: string, params?: Record<string, unknown>, query?: Record<string, unknown>): string {
+        const path = this.router.url(name, params);
+        const search = new URLSearchParams();
+        for (const [key, value] of Object.entries(query || {})) {
+            if (value === undefined || value === null) continue;
+            for (const v of Array.isArray(value) ? value : [value]) search.append(key, String(v));
+        }
+        const qs = search.toString();
+        return qs ? path + "?" + qs : path;
+    }
+
+    /** List all routes with handlers and parameter bindings. */
+    routes(): RouteInfo[] {
+        return this.router.routes().map((route) => ({
+            name: route.name,
+            method: route.method,
+            path: route.path,
+            controller: route.controller,
+            handler: route.handlerName || "anonymous",
+            template: route.template,
+            produces: route.produces,
+            consumes: route.consumes,
+            parameters: route.parameters.map(({ name, type, decorator }) => ({
+                name, decorator, type: (type as Function)?.name
+            }))
+        }));
+    }
+
+    /** Print the route table (method, path, handler and produced media types) to the console. */
+    printRoutes(): void {
+        const routes = this.routes();
+        const width = Math.max(0, ...routes.map((r) => r.path.length));
+        for (const { method, path, controller, handler, produces } of routes) {
+            const target = controller ? `${controller}.${handler}` : handler;
+            const mediaTypes = produces ? ` (${produces.join(", ")})` : "";
+            console.log(`\x1b[90m${(method || "*").padEnd(7)} ${path.padEnd(width)}  ${target}${mediaTypes}\x1b[0m`);
+        }
     }
 
     /** Quickly add simple route */
     private addSimpleRoute(method: string, path: string, handler: Function) {
         this.router.add({
             method, path,
+            handlerName: handler.name || undefined,
             handler: handler as RouteHandler,
             parameters: [{            // Inject HttpContext as the sole parameter
                 index: 0, name: "_",  // Ignores parameter name
@@ -129,114 +352,200 @@ export class Application {
         const { request, response } = ctx;
         const { method, pathname } = request;
 
+        // Find route by request method, pathname and media types (406 or 415 if not negotiable).
+        let match: RouteMatch | undefined;
         try {
-            // Find route by request method and pathname.
-            const route = this.router.find(method, pathname);
-            if (!route) {
-                throw new HttpError(STATUS_CODE.NotFound, "Route not found: " + pathname);
+            match = this.router.find(method, pathname, request.headers);
+            if (match) {
+                await this.dispatch(ctx, match);
+            } else {
+                this.handleUnmatched(ctx);
             }
+        } catch (err) {
+            await this.handleError(ctx, err, match?.route);
+        }
 
-            // Set response header in advance for subsequent routes to access.
-            if (route.template) {
-                response.headers.set("Content-Type", "text/html; charset=utf-8");
-            }
+        // Persist the session, remove temporary uploaded files and unified output response body.
+        // (The body of HEAD request is discarded)
+        await this.saveSession(ctx);
+        await request.cleanup();
+        const res = response.build();
+        return method === "HEAD" ? new Response(null, res) : res;
+    }
+
+    /** Execute interceptors and the matched route. */
+    private async dispatch(ctx: HttpContext, match: RouteMatch): Promise<void> {
+        const { request, response } = ctx;
+        const { route, params, mediaType } = match;
+
+        // Set route parameters and upload limits of the route before the body is parsed.
+        request.params = params;
+        request.uploadOptions = route.upload;
+
+        // Set response header and compression in advance for subsequent routes to access.
+        response.compressible = !route.skipCompression;
+        if (mediaType) {
+            const textual = mediaType.startsWith("text/") || /[/+]json$/.test(mediaType);
+            response.headers.set("Content-Type", textual ? mediaType + "; charset=utf-8" : mediaType);
+            response.headers.append("Vary", "Accept");
+        } else if (route.template) {
+            response.headers.set("Content-Type", "text/html; charset=utf-8");
+        }
 
-            // Inject interceptor actual parameters and execute.
-            // Interceptors have no return value - throwing an error means preventing further execution.
-            for (const interceptor of this.interceptors) {
-                const args = await this.injectArguments(ctx, interceptor);
-                await interceptor.handler(...args);
+        const interceptors = this.getInterceptors(route, request.pathname);
+        const byPhase = (phase: string) => interceptors.filter((i) => (i.phase || "before") === phase);
+
+        // Inject interceptor actual parameters and execute before the handler.
+        // Throwing an error means preventing further execution, and returning a value
+        // means short-circuiting the handler with the value.
+        let result: unknown;
+        let shortCircuited = false;
+        for (const interceptor of byPhase("before")) {
+            const args = await this.injectArguments(ctx, interceptor);
+            result = await interceptor.handler(...args);
+            if (result !== undefined) {
+                shortCircuited = true;
+                break;
             }
+        }
 
+        if (!shortCircuited) {
             // Inject actual parameters into controller route method and obtain execution results.
-            const args = await this.injectArguments(ctx, route);
-            response.body = await route.handler(...args);
+            // Around interceptors wrap the handler by calling `next()`, the first one is the outermost.
+            const invoke = async () => {
+                const args = await this.injectArguments(ctx, route);
+                return await route.handler(...args);
+            };
+            const chain = byPhase("around").reduceRight((next: () => Promise<unknown>, interceptor) => {
+                return async () => {
+                    const args = await this.injectArguments(ctx, interceptor, { next });
+                    return await interceptor.handler(...args);
+                };
+            }, invoke);
+            result = await chain();
+        }
 
-            // If a template decorator exists, render the template file with the returned data.
-            if (route.template) {
-                response.body = await this.engine.view(route.template, response.body);
+        // After interceptors can replace the result by returning a value, or modify the response.
+        for (const interceptor of byPhase("after")) {
+            const args = await this.injectArguments(ctx, interceptor, { result });
+            const replaced = await interceptor.handler(...args);
+            if (replaced !== undefined) result = replaced;
+        }
+        response.body = result as HttpResponse["body"];
+        if (result instanceof Response) return;
+
+        // If a template decorator exists, render the template file with the returned data for HTML,
+        // otherwise serialize the returned data (strings and binary data are sent as they are).
+        if (route.template && (!mediaType || mediaType === "text/html")) {
+            response.body = await this.engine.view(route.template, result);
+        } else if (mediaType && result !== undefined && typeof result !== "string" && response.isPlainObject()) {
+            const serialize = this.serializers.get(mediaType.toLowerCase());
+            if (!serialize) {
+                throw new HttpError(STATUS_CODE.InternalServerError, `No serializer for media type ${mediaType}`);
             }
-        } catch (_err: any) {
-            console.error("\x1b[31m[CROSS ERROR]\x1b[0m", _err);
-            const err = this.buildHttpError(_err);
-            response.status = err.status;
-
-            // Check if a custom unified error handling method exists.
-            if (this.errorRoute) {
-                const contentType = response.headers.get("Content-Type");
-                const args = await this.injectArguments(ctx, this.errorRoute, err);
-                response.body = await this.errorRoute.handler(...args);
-
-                // If the response type is 'text/html' and the error route has a template file,
-                // render the specified error message template.
-                if (this.errorRoute.template && contentType?.includes("text/html")) {
-                    response.body = await this.engine.view(this.errorRoute.template, response.body);
+            response.body = await serialize(result);
+        }
+    }
+
+    /**
+     * Verify that every media type produced by routes has a serializer (serializers are registered after bootstrap),
+     * except HTML rendered by the template of the route.
+     */
+    private verifySerializers(): void {
+        const problems: string[] = [];
+        for (const route of this.router.routes()) {
+            for (const mediaType of route.produces || []) {
+                if (route.template && mediaType.toLowerCase() === "text/html") continue;
+                if (!this.serializers.has(mediaType.toLowerCase())) {
+                    problems.push(`No serializer for media type ${mediaType} produced by ${describeRoute(route)}`);
                 }
-            } else {
-                response.headers.set("Content-Type", "application/json; charset=utf-8")
-                response.body = JSON.stringify(err);
             }
         }
-
-        // Unified output response body.
-        return response.build();
+        if (problems.length) {
+            throw new Error(problems.join("\n"));
+        }
     }
 
-    /** Handle static resource requests */
-    private async handleResource(request: HttpRequest): Promise<Response> {
-        const { pathname } = request;
-        const { fsPath, fsRoot } = this.resourceOptions;
-        const filePath = resolve(fsRoot!, pathname.slice(fsPath!.length));
-        const threshold = 500 * 1024; // File size threshold: 500KB.
+    /** Get global interceptors applicable to the route and scoped interceptors, sorted by order. */
+    private getInterceptors(route: DynamicRoute, pathname: string): InterceptorRoute[] {
+        const globals = this.interceptors.filter((interceptor) => {
+            const { name, include, exclude } = interceptor;
+            if (name && route.skipInterceptors?.includes(name)) return false;
+            if (include?.length && !include.some((p) => p.test(pathname))) return false;
+            return !exclude?.some((p) => p.test(pathname));
+        });
+        return [...globals, ...route.interceptors || []].sort((a, b) => a.order - b.order);
+    }
 
-        try {
-            const stat = await Deno.stat(filePath);
-            if (!stat.isFile) {
-                return new Response("Resource is not a file", { status: STATUS_CODE.BadRequest });
-            }
+    /**
+     * Handle the request without matched route:
+     * answer OPTIONS automatically, 405 if the path exists under other methods, otherwise 404.
+     */
+    private handleUnmatched(ctx: HttpContext): void {
+        const { request, response } = ctx;
+        const { method, pathname } = request;
+        const allowed = this.router.allowedMethods(pathname);
+        if (!allowed.length) {
+            throw new NotFoundError("Route not found: " + pathname);
+        }
 
-            const lastModified = stat.mtime;
-            const ifModifiedSince = request.headers.get("If-Modified-Since");
-            const headers = new Headers();
+        response.headers.set("Allow", allowed.join(", "));
+        if (method === "OPTIONS") {
+            response.status = STATUS_CODE.NoContent;
+            return;
+        }
+        throw new HttpError(STATUS_CODE.MethodNotAllowed, `Method ${method} not allowed: ${pathname}`);
+    }
 
-            // Handle conditional caching (304 status).
-            if (lastModified && ifModifiedSince) {
-                const ifModifiedSinceTime = new Date(ifModifiedSince);
-                if (lastModified.getTime() <= ifModifiedSinceTime.getTime()) {
-                    return new Response(null, { status: STATUS_CODE.NotModified });
-                }
-                headers.set("Last-Modified", lastModified.toUTCString());
+    /** Handle static resource requests, errors are handled by global error handlers. */
+    private async handleResource(ctx: HttpContext, mount: ResourceMount): Promise<Response> {
+        try {
+            return await serveResource(ctx.request, mount);
+        } catch (err) {
+            // Error pages of browsers are rendered by the template of the error handler, as for dynamic routes.
+            const acceptsHtml = ctx.request.headers.get("Accept")?.includes("text/html");
+            if (acceptsHtml && this.findErrorRoute(err)?.template) {
+                ctx.response.headers.set("Content-Type", "text/html; charset=utf-8");
             }
+            await this.handleError(ctx, err);
+            const res = ctx.response.build();
+            return ctx.request.method === "HEAD" ? new Response(null, res) : res;
+        }
+    }
 
-            // Set Content-Type response header.
-            const mimeType = contentType(extname(filePath)) || "application/octet-stream";
-            headers.set("Content-Type", mimeType);
-
-            // Choose different file reading methods based on file size:
-            // read small files directly, and stream large files for output.
-            if (stat.size <= threshold) {
-                const data = await Deno.readFile(filePath);
-                return new Response(data, { headers });
-            } else {
-                const file = await Deno.open(filePath, { read: true });
-                return new Response(file.readable, { headers });
-            }
-        } catch (err: any) {
-            if (err instanceof Deno.errors.NotFound) {
-                return new Response("Resource Not Found: " + pathname, {
-                    status: STATUS_CODE.NotFound
-                });
+    /**
+     * Handle the error by the error handler of its class, or respond with problem details.
+     * The error is logged before it is handled.
+     */
+    private async handleError(ctx: HttpContext, _err: unknown, route?: DynamicRoute): Promise<void> {
+        const { request, response } = ctx;
+        const err = this.buildHttpError(_err);
+        err.production = this.problemOptions.production;  // Error handlers serialize the error in the same mode
+        this.problemOptions.logger(err, request);
+        response.status = err.status;
+
+        // Check if a custom error handling method exists for the error class.
+        const errorRoute = this.findErrorRoute(_err, route);
+        if (errorRoute) {
+            const contentType = response.headers.get("Content-Type");
+            const args = await this.injectArguments(ctx, errorRoute, { error: err, original: _err });
+            response.body = await errorRoute.handler(...args);
+
+            // If the response type is 'text/html' and the error route has a template file,
+            // render the specified error message template.
+            if (errorRoute.template && contentType?.includes("text/html")) {
+                response.body = await this.engine.view(errorRoute.template, response.body);
             }
-            return new Response("Internal Server Error: " + err.message, {
-                status: STATUS_CODE.InternalServerError
-            });
+        } else {
+            const problem = err.toProblem(request.pathname);
+            response.headers.set("Content-Type", "application/problem+json; charset=utf-8");
+            response.body = JSON.stringify(problem);
         }
     }
 
     /** Inject real arguments into route callback method. */
-    private async injectArguments(context: HttpContext, route: BaseRoute, error?: HttpError): Promise<any[]> {
+    private async injectArguments(context: HttpContext, route: BaseRoute, extras: InjectExtras = {}): Promise<any[]> {
         const { request, response, cookie, session } = context;
-        request.params = (route as DynamicRoute).params || {};
         const args: any[] = [];
 
         for (const arg of route.parameters || []) {
@@ -244,17 +553,50 @@ export class Application {
 
             switch (arg.decorator) {
                 case "Param":
-                    // @Param Retrieve argument from the route path.
-                    args[index] = request.params[name];
+                    // @Param Retrieve argument from the route path and convert to the declared type.
+                    args[index] = convertArgument(arg, request.params[name]);
                     break;
                 case "Query":
                     // @Query If the type is an object, pass the query object;
-                    // otherwise pass the specific property value.
-                    args[index] = type === Object ? request.query : request.query[name];
+                    // otherwise pass the specific property value converted to the declared type.
+                    args[index] = type === Object && !arg.enum ? request.query : convertArgument(arg, request.query[name]);
                     break;
-                case "Body":
-                    // @Body Pass the JSON object from the request body.
-                    args[index] = await request.json();
+                case "Body": {
+                    // @Body Pass the binary body if the type is ArrayBuffer, Uint8Array or ReadableStream.
+                    if (type === ArrayBuffer || type === Uint8Array || type === ReadableStream) {
+                        args[index] = await request.readBinary(type as typeof ArrayBuffer);
+                        break;
+                    }
+                    // Otherwise pass the body parsed by Content-Type.
+                    // If the type is a DTO class, pass the validated instance of it.
+                    const body = await request.parseBody();
+                    const isForm = request.mediaType.endsWith("form-data") || request.mediaType.endsWith("urlencoded");
+                    args[index] = isValidatable(type) ? validate(type, body, isForm) : body;
+                    break;
+                }
+                case "UploadedFile": {
+                    // @UploadedFile Pass the first uploaded file of the form field.
+                    const { files } = await request.parseMultipart();
+                    args[index] = convertArgument(arg, files.find((f) => f.field === (arg.field ?? name)));
+                    break;
+                }
+                case "UploadedFiles": {
+                    // @UploadedFiles Pass all uploaded files, or the files of the form field if specified.
+                    const { files } = await request.parseMultipart();
+                    args[index] = arg.field ? files.filter((f) => f.field === arg.field) : files;
+                    break;
+                }
+                case "Result":
+                    // @Result Pass the result of the handler to after interceptors.
+                    args[index] = extras.result;
+                    break;
+                case "Next":
+                    // @Next Pass the function to invoke the next interceptor or handler to around interceptors.
+                    args[index] = extras.next;
+                    break;
+                case "Inject":
+                    // @Inject Pass the instance of the token (request-scoped instances are cached in the context).
+                    args[index] = this.container.get(arg.token!, context.beans);
                     break;
                 default:
                     // For other cases without decorators, automatically inject based on parameter types.
@@ -266,8 +608,11 @@ export class Application {
                         case HttpResponse:  args[index] = response;     break;
                         case HttpCookie:    args[index] = cookie;       break;
                         case HttpSession:   args[index] = session;      break;
-                        case HttpError:     args[index] = error;        break;
-                        default:            args[index] = undefined;    break;
+                        case HttpError:     args[index] = extras.error; break;
+                        default:
+                            args[index] = this.container.has(type)
+                                ? this.container.get(type as Constructor, context.beans)
+                                : this.injectOriginalError(type, extras.original);
                     }
                     // @formatter:on
             }
@@ -275,10 +620,43 @@ export class Application {
         return args;
     }
 
-    /** Determine if it is a static resource request. */
-    private isResourceRequest(pathname: string) {
-        const { fsPath } = this.resourceOptions;
-        return fsPath && pathname.startsWith(fsPath);
+    /** Persist the session without interrupting the response. */
+    private async saveSession(ctx: HttpContext): Promise<void> {
+        try {
+            await ctx.session.save();
+        } catch (err) {
+            console.error("\x1b[31m[CROSS ERROR]\x1b[0m", err);
+        }
+    }
+
+    /** The original error can be injected into error handlers by its class. */
+    private injectOriginalError(type: unknown, original: unknown): unknown {
+        return typeof type === "function" && original instanceof type ? original : undefined;
+    }
+
+    /** Find the static resource route of the request path (the path of the route without "/" is included). */
+    private findResourceMount(pathname: string): ResourceMount | undefined {
+        return this.resourceMounts.find((mount) => {
+            return pathname.startsWith(mount.fsPath) || pathname + "/" === mount.fsPath;
+        });
+    }
+
+    /**
+     * Find the error handler by the closest error class in the prototype chain.
+     * Handlers of the controller take precedence over global handlers, and handlers
+     * without error class catch all errors in their scope.
+     */
+    private findErrorRoute(error: unknown, route?: DynamicRoute): ErrorRoute | undefined {
+        for (const errorRoutes of [route?.errorRoutes || [], this.errorRoutes]) {
+            if (error !== null && typeof error === "object") {
+                for (let proto = Object.getPrototypeOf(error); proto; proto = Object.getPrototypeOf(proto)) {
+                    const found = errorRoutes.find((r) => r.errorType?.prototype === proto);
+                    if (found) return found;
+                }
+            }
+            const fallback = errorRoutes.find((r) => !r.errorType);
+            if (fallback) return fallback;
+        }
     }
 
     /** Build HTTP error */
@@ -286,12 +664,12 @@ export class Application {
         if (err instanceof HttpError) {
             return err;
         }
-        if (err.status && err.message) {
-            return new HttpError(err.status, err.message);
+        if (err?.status && err.message) {
+            return new HttpError(err.status, err.message, { cause: err });
         }
         const status = STATUS_CODE.InternalServerError;
         const message = err instanceof Error ? err.message : String(err);
-        return new HttpError(status, message);
+        return new HttpError(status, message, { cause: err });
     }
 
     /** Format version information */
@@ -308,22 +686,4 @@ export class Application {
         console.log(`\x1b[32mCross is listening on \x1b[0m\x1b[4m\x1b[36mhttp://${hostname}:${port}\x1b[0m`);
     }
 
-}
-
-/** Dependency injection component registry. */
-export const Registry: { beans: Map<Constructor, any>, register: any, get: any } = {
-    beans: new Map<Constructor, any>(),
-
-    register(key: Constructor) {
-        let singleton = this.get(key);
-        if (!singleton) {
-            singleton = new key();
-            this.beans.set(key, singleton);
-        }
-        return singleton;
-    },
-
-    get(key: Constructor) {
-        return this.beans.get(key);
-    }
 }
\ No newline at end of file
@@ -0,0 +1,312 @@
+import { STATUS_CODE } from "@std/http/status";
+import { HttpError } from "./context.ts";
+import { UploadOptions } from "./types.ts";
+
+/** Default upload limits */
+const DEFAULT_LIMITS: Required<UploadOptions> = {
+    maxFileSize: 10 * 1024 * 1024,  // 10MB per file
+    maxFiles: 10,
+    maxFieldSize: 1024 * 1024,      // 1MB per text field
+    maxFields: 100,
+    maxFieldsSize: 2 * 1024 * 1024, // 2MB of all text fields
+    mimeTypes: [],                  // Allow any type
+};
+
+const MAX_HEADER_SIZE = 16 * 1024;
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const CRLF = encoder.encode("\r\n");
+const HEADER_END = encoder.encode("\r\n\r\n");
+
+/** Parsed multipart form data */
+export type MultipartData = {
+    fields: [string, string][];
+    files: MultipartFile[];
+}
+
+/**
+ * Multipart File Object (uploaded file)
+ * The content is streamed to a temporary file while uploading, which will be
+ * removed after the request unless it has been saved.
+ *
+ * @Author Marco
+ * @Repository https://github.com/metadream/deno-cross
+ * @Since 2025-06-05
+ */
+export class MultipartFile {
+
+    // The form field name
+    readonly field: string;
+    // The original file name
+    readonly name: string;
+    // The MIME type declared by the client
+    readonly type: string;
+    // The file size in bytes
+    size = 0;
+    // The temporary file path (or the destination path after saved)
+    path: string;
+
+    private saved = false;
+
+    constructor(field: string, name: string, type: string, path: string) {
+        this.field = field;
+        this.name = name;
+        this.type = type;
+        this.path = path;
+    }
+
+    /** Read the whole content into memory */
+    bytes(): Promise<Uint8Array> {
+        return Deno.readFile(this.path);
+    }
+
+    /** Read the whole content as text */
+    text(): Promise<string> {
+        return Deno.readTextFile(this.path);
+    }
+
+    /** Open the content as a readable stream */
+    async stream(): Promise<ReadableStream<Uint8Array>> {
+        const file = await Deno.open(this.path, { read: true });
+        return file.readable;
+    }
+
+    /** Move the file to the destination path (copy if moving across devices) */
+    async saveTo(dest: string): Promise<void> {
+        try {
+            await Deno.rename(this.path, dest);
+        } catch {
+            await Deno.copyFile(this.path, dest);
+            await Deno.remove(this.path);
+        }
+        this.path = dest;
+        this.saved = true;
+    }
+
+    /** Remove the temporary file if it has not been saved */
+    async cleanup(): Promise<void> {
+        if (this.saved) return;
+        await Deno.remove(this.path).catch(() => {});
+    }
+
+    /** JSON.stringify() will automatically call this method for serialization. */
+    toJSON(): {} {
+        return { field: this.field, name: this.name, type: this.type, size: this.size };
+    }
+
+}
+
+/**
+ * Parse the multipart stream and write files to temporary files while streaming.
+ * Limits are enforced before the whole body is buffered: 413 if a file or field is too large,
+ * there are too many files or fields, or fields are too large in total, 415 if the file type is not allowed.
+ */
+export async function parseMultipart(
+    stream: ReadableStream<Uint8Array>, boundary: string, options?: UploadOptions
+): Promise<MultipartData> {
+    const limits = { ...DEFAULT_LIMITS, ...options };
+    const reader = new StreamReader(stream);
+    const delimiter = encoder.encode("\r\n--" + boundary);
+    const result: MultipartData = { fields: [], files: [] };
+    let fieldsSize = 0;
+
+    try {
+        // The first boundary has no leading CRLF, prepend it to match the same delimiter.
+        reader.unshift(CRLF);
+        await reader.skipUntil(delimiter);
+
+        while (true) {
+            // Two hyphens after the delimiter indicate the end of the body.
+            const next = await reader.take(2);
+            if (next[0] === 45 && next[1] === 45) break;
+
+            const headers = parseHeaders(decoder.decode(await reader.readUntil(HEADER_END, MAX_HEADER_SIZE)));
+            const disposition = headers["content-disposition"] || "";
+            const name = matchParam(disposition, "name") || "";
+            const filename = matchParam(disposition, "filename");
+
+            if (filename === undefined) {
+                if (result.fields.length >= limits.maxFields) {
+                    throw new HttpError(STATUS_CODE.ContentTooLarge,
+                        `Too many fields, at most ${limits.maxFields} allowed`);
+                }
+                // The field is limited by its own maximum size and the remaining size of all fields.
+                const remaining = limits.maxFieldsSize - fieldsSize;
+                const value = await reader.readUntil(delimiter, Math.min(limits.maxFieldSize, remaining), () => {
+                    throw new HttpError(STATUS_CODE.ContentTooLarge, remaining < limits.maxFieldSize
+                        ? `Fields exceed the maximum total size of ${limits.maxFieldsSize} bytes`
+                        : `Field "${name}" is too large`);
+                });
+                fieldsSize += value.length;
+                result.fields.push([name, decoder.decode(value)]);
+            } else {
+                const type = headers["content-type"] || "application/octet-stream";
+                checkFile(name, type, result.files.length, limits);
+
+                const file = new MultipartFile(name, filename, type, await Deno.makeTempFile({ prefix: "cross-upload-" }));
+                result.files.push(file);
+                await writeFile(reader, delimiter, file, limits.maxFileSize);
+            }
+        }
+        return result;
+    } catch (err) {
+        await reader.cancel();
+        await Promise.all(result.files.map((f) => f.cleanup()));
+        throw err;
+    }
+}
+
+/** Check the file count and MIME type before receiving the file content */
+function checkFile(name: string, type: string, count: number, limits: Required<UploadOptions>): void {
+    if (count >= limits.maxFiles) {
+        throw new HttpError(STATUS_CODE.ContentTooLarge, `Too many files, at most ${limits.maxFiles} allowed`);
+    }
+    const { mimeTypes } = limits;
+    const allowed = !mimeTypes.length || mimeTypes.some((pattern) => {
+        return pattern.endsWith("/*") ? type.startsWith(pattern.slice(0, -1)) : type === pattern;
+    });
+    if (!allowed) {
+        throw new HttpError(STATUS_CODE.UnsupportedMediaType, `File "${name}" of type ${type} is not allowed`);
+    }
+}
+
+/** Stream the part content to the temporary file until the delimiter */
+async function writeFile(reader: StreamReader, delimiter: Uint8Array, file: MultipartFile, maxSize: number) {
+    const out = await Deno.open(file.path, { write: true, truncate: true });
+    try {
+        await reader.pipeUntil(delimiter, async (chunk) => {
+            file.size += chunk.length;
+            if (file.size > maxSize) {
+                throw new HttpError(STATUS_CODE.ContentTooLarge,
+                    `File "${file.field}" exceeds the maximum size of ${maxSize} bytes`);
+            }
+            for (let n = 0; n < chunk.length;) {
+                n += await out.write(chunk.subarray(n));
+            }
+        });
+    } finally {
+        out.close();
+    }
+}
+
+/** Parse part headers into object with lowercase keys */
+function parseHeaders(text: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const line of text.split("\r\n")) {
+        const i = line.indexOf(":");
+        if (i > 0) headers[line.slice(0, i).trim().toLowerCase()] = line.slice(i + 1).trim();
+    }
+    return headers;
+}
+
+/** Match parameter value in header like `form-data; name="file"; filename="a.png"` */
+function matchParam(header: string, key: string): string | undefined {
+    const match = header.match(new RegExp(`(?:^|;)\\s*${key}="([^"]*)"`, "i"))
+        || header.match(new RegExp(`(?:^|;)\\s*${key}=([^;]*)`, "i"));
+    return match ? match[1].trim() : undefined;
+}
+
+/**
+ * Buffered reader over the byte stream
+ * Only the bytes that may contain a delimiter are kept in memory.
+ */
+class StreamReader {
+    private reader: ReadableStreamDefaultReader<Uint8Array>;
+    private buffer: Uint8Array = new Uint8Array(0);
+
+    constructor(stream: ReadableStream<Uint8Array>) {
+        this.reader = stream.getReader();
+    }
+
+    /** Put bytes back at the beginning of the buffer */
+    unshift(bytes: Uint8Array): void {
+        this.buffer = concat(bytes, this.buffer);
+    }
+
+    /** Take a fixed number of bytes */
+    async take(length: number): Promise<Uint8Array> {
+        while (this.buffer.length < length) await this.fill();
+        const bytes = this.buffer.subarray(0, length);
+        this.buffer = this.buffer.subarray(length);
+        return bytes;
+    }
+
+    /** Discard bytes until the end of the pattern */
+    skipUntil(pattern: Uint8Array): Promise<void> {
+        return this.pipeUntil(pattern, () => {});
+    }
+
+    /** Read bytes into memory until the pattern (exclusive) with the maximum size */
+    async readUntil(pattern: Uint8Array, maxSize: number, onExceed?: () => void): Promise<Uint8Array> {
+        const chunks: Uint8Array[] = [];
+        let size = 0;
+        await this.pipeUntil(pattern, (chunk) => {
+            size += chunk.length;
+            if (size > maxSize) {
+                onExceed ? onExceed() : malformed();
+            }
+            chunks.push(chunk.slice());
+        });
+        return concat(...chunks);
+    }
+
+    /** Pass bytes to the consumer until the pattern, then skip the pattern */
+    async pipeUntil(pattern: Uint8Array, consumer: (chunk: Uint8Array) => void | Promise<void>): Promise<void> {
+        while (true) {
+            const index = indexOf(this.buffer, pattern);
+            if (index >= 0) {
+                if (index > 0) await consumer(this.buffer.subarray(0, index));
+                this.buffer = this.buffer.subarray(index + pattern.length);
+                return;
+            }
+            // Keep the tail which may be the beginning of the pattern.
+            const safe = this.buffer.length - pattern.length + 1;
+            if (safe > 0) {
+                await consumer(this.buffer.subarray(0, safe));
+                this.buffer = this.buffer.subarray(safe);
+            }
+            await this.fill();
+        }
+    }
+
+    /** Cancel the underlying stream */
+    async cancel(): Promise<void> {
+        await this.reader.cancel().catch(() => {});
+    }
+
+    /** Read the next chunk from the stream */
+    private async fill(): Promise<void> {
+        const { done, value } = await this.reader.read();
+        if (done) malformed();
+        this.buffer = concat(this.buffer, value!);
+    }
+}
+
+/** Throw error of malformed multipart body */
+function malformed(): never {
+    throw new HttpError(STATUS_CODE.BadRequest, "Malformed multipart body");
+}
+
+/** Concatenate byte arrays */
+function concat(...arrays: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(arrays.reduce((n, a) => n + a.length, 0));
+    let offset = 0;
+    for (const a of arrays) {
+        result.set(a, offset);
+        offset += a.length;
+    }
+    return result;
+}
+
+/** Find the index of the pattern in the byte array */
+function indexOf(source: Uint8Array, pattern: Uint8Array): number {
+    const first = pattern[0];
+    const last = source.length - pattern.length;
+    outer: for (let i = source.indexOf(first); i >= 0 && i <= last; i = source.indexOf(first, i + 1)) {
+        for (let j = 1; j < pattern.length; j++) {
+            if (source[i + j] !== pattern[j]) continue outer;
+        }
+        return i;
+    }
+    return -1;
+}
@@ -0,0 +1,108 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { HttpError } from "./context.ts";
+import { Controller, Post, Upload, UploadedFile, UploadedFiles } from "./decorators.ts";
+import { createApp } from "./mod.ts";
+import { MultipartFile, parseMultipart } from "./multipart.ts";
+import { TestClient } from "./testing.ts";
+import { UploadOptions } from "./types.ts";
+
+const BOUNDARY = "----CrossBoundary";
+
+/** Part of the multipart body (a file part if the filename is present) */
+type Part = { name: string, value: string, filename?: string, type?: string };
+
+/** Build the multipart body streamed in small chunks, so that delimiters are split across chunks */
+function createStream(parts: Part[], chunkSize = 7): ReadableStream<Uint8Array> {
+    let text = "";
+    for (const { name, value, filename, type } of parts) {
+        text += `--${BOUNDARY}\r\nContent-Disposition: form-data; name="${name}"`;
+        text += filename === undefined ? "\r\n\r\n" : `; filename="${filename}"\r\nContent-Type: ${type}\r\n\r\n`;
+        text += value + "\r\n";
+    }
+    const bytes = new TextEncoder().encode(text + `--${BOUNDARY}--\r\n`);
+    let offset = 0;
+    return new ReadableStream({
+        pull(controller) {
+            if (offset >= bytes.length) return controller.close();
+            controller.enqueue(bytes.slice(offset, offset += chunkSize));
+        }
+    });
+}
+
+/** Expect the parser to reject with the status and return the error */
+function expectRejects(parts: Part[], options: UploadOptions, status: number): Promise<HttpError> {
+    return assertRejects(async () => {
+        try {
+            await parseMultipart(createStream(parts), BOUNDARY, options);
+        } catch (err) {
+            assertEquals((err as HttpError).status, status);
+            throw err;
+        }
+    }, HttpError) as Promise<HttpError>;
+}
+
+Deno.test("multipart: fields and files are parsed from a chunked stream", async () => {
+    const content = "line 1\r\n--not a delimiter\r\nline 3";
+    const data = await parseMultipart(createStream([
+        { name: "title", value: "Hello, world" },
+        { name: "doc", value: content, filename: "notes.txt", type: "text/plain" },
+        { name: "empty", value: "" },
+    ]), BOUNDARY);
+
+    assertEquals(data.fields, [["title", "Hello, world"], ["empty", ""]]);
+    assertEquals(data.files.length, 1);
+    const [file] = data.files;
+    assertEquals(file.toJSON(), { field: "doc", name: "notes.txt", type: "text/plain", size: content.length });
+    assertEquals(await file.text(), content);
+    await file.cleanup();
+});
+
+Deno.test("multipart: file limits are enforced while streaming", async () => {
+    const file = { name: "doc", value: "0123456789", filename: "a.txt", type: "text/plain" };
+    await expectRejects([file], { maxFileSize: 5 }, 413);
+    await expectRejects([file, file], { maxFiles: 1 }, 413);
+    await expectRejects([file], { mimeTypes: ["image/*"] }, 415);
+});
+
+Deno.test("multipart: field limits are enforced while streaming", async () => {
+    const field = { name: "note", value: "0123456789" };
+    await expectRejects([field], { maxFieldSize: 5 }, 413);
+    await expectRejects([field, field, field], { maxFields: 2 }, 413);
+    const error = await expectRejects([field, field], { maxFieldsSize: 15 }, 413);
+    assertEquals(error.message, "Fields exceed the maximum total size of 15 bytes");
+});
+
+Deno.test("multipart: truncated body is rejected", async () => {
+    const stream = new Blob([`--${BOUNDARY}\r\nContent-Disposition: form-data; name="a"\r\n\r\nvalue`]).stream();
+    await assertRejects(() => parseMultipart(stream, BOUNDARY), HttpError, "Malformed multipart body");
+});
+
+Deno.test("multipart: uploaded files are injected and removed after the request", async () => {
+    let paths: string[] = [];
+
+    @Controller("/uploads")
+    class UploadController {
+        @Post("/")
+        @Upload({ maxFileSize: 10, maxFiles: 2 })
+        async upload(@UploadedFile("avatar") avatar: MultipartFile, @UploadedFiles() files: MultipartFile[]) {
+            paths = files.map((f) => f.path);
+            return { avatar: await avatar.text(), count: files.length };
+        }
+    }
+    const app = createApp({ controllers: [UploadController] });
+    app.errors({ logger: () => {} });
+    const client = new TestClient(app);
+
+    const form = new FormData();
+    form.append("avatar", new File(["face"], "face.png", { type: "image/png" }));
+    form.append("other", new File(["x"], "x.txt"));
+    assertEquals(await client.post("/uploads/").send(form).expectStatus(200).json(), { avatar: "face", count: 2 });
+    assertEquals(paths.length, 2);
+    for (const path of paths) {
+        assert(!await Deno.stat(path).then(() => true, () => false), "temporary file is not removed: " + path);
+    }
+
+    const large = new FormData();
+    large.append("avatar", new File(["0123456789abc"], "large.png", { type: "image/png" }));
+    await client.post("/uploads/").send(large).expectStatus(413);
+});
@@ -0,0 +1,92 @@
+import { STATUS_CODE } from "@std/http/status";
+import { DynamicRoute, RouteMatch } from "./types.ts";
+import { HttpError } from "./context.ts";
+
+/** Media range of the Accept header like `text/*;q=0.8` */
+type MediaRange = {
+    type: string;
+    q: number;
+    specificity: number;  // 2 for `type/subtype`, 1 for `type/*`, 0 for `*/*`
+}
+
+/** Candidate of the negotiation (routes without @Produces have no media type) */
+type Candidate = {
+    route: DynamicRoute;
+    mediaType?: string;
+    q: number;
+    specificity: number;
+}
+
+/**
+ * Select the route by the request headers among routes of the same path and method.
+ * Routes with @Consumes only accept the request of matching Content-Type (415 otherwise),
+ * and the media type of @Produces is chosen by the quality and specificity of the Accept header (406 otherwise).
+ * Routes without @Produces are used only if no produced media type is acceptable.
+ * Ties are resolved by the order of registration and declaration.
+ */
+export function negotiateRoute(routes: DynamicRoute[], headers: Headers): Omit<RouteMatch, "params"> {
+    if (routes.length === 1 && !routes[0].consumes && !routes[0].produces) {
+        return { route: routes[0] };
+    }
+
+    const contentType = headers.get("Content-Type")?.split(";")[0].trim().toLowerCase();
+    const consumable = routes.filter(({ consumes }) => {
+        return !consumes?.length || !!contentType && consumes.some((c) => matchMediaType(c, contentType));
+    });
+    if (!consumable.length) {
+        const expected = [...new Set(routes.flatMap((r) => r.consumes!))].join(", ");
+        throw new HttpError(STATUS_CODE.UnsupportedMediaType,
+            `Content type ${contentType || "(none)"} is not supported, expected ${expected}`);
+    }
+
+    const ranges = parseAccept(headers.get("Accept"));
+    let best: Candidate | undefined;
+    for (const route of consumable) {
+        for (const mediaType of route.produces || []) {
+            const candidate = { route, mediaType, ...getQuality(ranges, mediaType) };
+            if (candidate.q > 0 && (!best || candidate.q > best.q
+                || candidate.q === best.q && candidate.specificity > best.specificity)) {
+                best = candidate;
+            }
+        }
+    }
+    if (best) return { route: best.route, mediaType: best.mediaType };
+
+    const fallback = consumable.find((r) => !r.produces?.length);
+    if (fallback) return { route: fallback };
+
+    const expected = [...new Set(consumable.flatMap((r) => r.produces!))].join(", ");
+    throw new HttpError(STATUS_CODE.NotAcceptable, `None of the media types is acceptable: ${expected}`);
+}
+
+/** Determine whether the media type matches the pattern with wildcards like `text/*` */
+export function matchMediaType(pattern: string, mediaType: string): boolean {
+    const [type, subtype] = pattern.toLowerCase().split("/");
+    const [actualType, actualSubtype] = mediaType.toLowerCase().split("/");
+    return (type === "*" || type === actualType) && (subtype === "*" || subtype === actualSubtype);
+}
+
+/** Parse media ranges of the Accept header (all media types are acceptable without the header) */
+function parseAccept(header: string | null): MediaRange[] {
+    if (!header?.trim()) return [{ type: "*/*", q: 1, specificity: 0 }];
+    const ranges: MediaRange[] = [];
+    for (const item of header.split(",")) {
+        const [type, ...params] = item.split(";").map((s) => s.trim().toLowerCase());
+        if (!type.includes("/")) continue;
+        const q = params.find((p) => p.startsWith("q="));
+        const specificity = type === "*/*" ? 0 : type.endsWith("/*") ? 1 : 2;
+        ranges.push({ type, q: q ? Number(q.slice(2)) || 0 : 1, specificity });
+    }
+    return ranges;
+}
+
+/** Get the quality of the media type by the most specific matching range (q is 0 if not acceptable) */
+function getQuality(ranges: MediaRange[], mediaType: string): { q: number, specificity: number } {
+    let matched: MediaRange | undefined;
+    for (const range of ranges) {
+        if (matchMediaType(range.type, mediaType) && (!matched || range.specificity > matched.specificity)) {
+            matched = range;
+        }
+    }
+    return matched ? { q: matched.q, specificity: matched.specificity } : { q: 0, specificity: 0 };
+}
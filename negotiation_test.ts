@@ -0,0 +1,117 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { Body, Consumes, Controller, Get, Post, Produces, Template } from "./decorators.ts";
+import { createApp } from "./mod.ts";
+import { TestClient } from "./testing.ts";
+
+@Controller("/reports")
+class ReportController {
+
+    @Get("/:id")
+    @Produces("application/json", "application/xml")
+    report() {
+        return { id: 1 };
+    }
+
+    @Get("/:id")
+    @Produces("text/csv")
+    csv() {
+        return "id\n1";
+    }
+
+    @Get("/:id")
+    fallback() {
+        return "plain";
+    }
+
+    @Get("/")
+    @Produces("application/xml")
+    list() {
+        return [{ id: 1 }];
+    }
+
+    @Post("/")
+    @Consumes("application/json")
+    createJson(@Body body: unknown) {
+        return { from: "json", body };
+    }
+
+    @Post("/")
+    @Consumes("text/*")
+    createText(@Body body: unknown) {
+        return { from: "text", body };
+    }
+}
+
+/** Create a client of the report controller with XML and CSV serializers */
+function createClient(): TestClient {
+    const app = createApp({ controllers: [ReportController] });
+    app.errors({ logger: () => {} });
+    app.serializer("application/xml", (data) => `<id>${(data as { id: number }).id}</id>`);
+    app.serializer("text/csv", (data) => String(data));
+    return new TestClient(app);
+}
+
+Deno.test("negotiation: produced media type is chosen by the quality and specificity of Accept", async () => {
+    const client = createClient();
+    const accept = (header: string) => client.get("/reports/1").header("Accept", header).expectStatus(200);
+
+    await accept("application/json").expectHeader("Content-Type", "application/json; charset=utf-8")
+        .expectHeader("Vary", "Accept");
+    assertEquals(await accept("application/xml").text(), "<id>1</id>");
+    assertEquals(await accept("application/json;q=0.5, text/csv").text(), "id\n1");
+    assertEquals(await accept("text/*, application/xml;q=0.9").text(), "id\n1");
+    assertEquals(await accept("application/*;q=0.8, application/xml").text(), "<id>1</id>");
+    assertEquals(await accept("image/png").json(), "plain");
+    assertEquals(await client.get("/reports/1").json(), { id: 1 });
+});
+
+Deno.test("negotiation: 406 if no produced media type is acceptable", async () => {
+    await createClient().get("/reports/").header("Accept", "application/json").expectStatus(406);
+});
+
+Deno.test("negotiation: produced media types without serializers fail to start", async () => {
+    @Controller("/exports")
+    class ExportController {
+        @Get("/")
+        @Template("exports.html")
+        @Produces("text/html", "application/yaml", "application/json")
+        list() {}
+
+        @Get("/raw")
+        @Produces("text/html")
+        raw() {}
+    }
+    const app = createApp({ controllers: [ExportController] });
+    await assertRejects(() => app.start(), Error,
+        "No serializer for media type application/yaml produced by GET /exports/ (ExportController.list)\n"
+        + "No serializer for media type text/html produced by GET /exports/raw (ExportController.raw)");
+    await assertRejects(() => app.handle(new Request("http://localhost/exports/")), Error, "No serializer");
+
+    const fixed = createApp({ controllers: [ExportController] });
+    fixed.serializer("application/yaml", (data) => JSON.stringify(data));
+    fixed.serializer("text/html", (data) => String(data));
+    await fixed.start();
+});
+
+Deno.test("negotiation: route is chosen by Content-Type of the request body (415 if none matches)", async () => {
+    const client = createClient();
+    assertEquals(await client.post("/reports/").send({ a: 1 }).json(), { from: "json", body: { a: 1 } });
+    const text = client.post("/reports/").header("Content-Type", "text/plain; charset=utf-8").send("hi");
+    assertEquals(await text.json(), { from: "text", body: "hi" });
+    await client.post("/reports/").header("Content-Type", "application/xml").send("<a/>").expectStatus(415);
+});
+
+Deno.test("negotiation: routes with overlapping media types conflict", () => {
+    @Controller("/conflicts")
+    class ConflictController {
+        @Get("/")
+        @Produces("application/json")
+        json() {}
+
+        @Get("/")
+        @Produces("text/csv", "application/json")
+        csv() {}
+    }
+    assertThrows(() => createApp({ controllers: [ConflictController] }), Error,
+        "GET /conflicts/ (ConflictController.csv) conflicts with GET /conflicts/ (ConflictController.json)");
+});
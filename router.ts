@@ -1,7 +1,32 @@
-import { DynamicRoute } from "./types.ts";
+import { DynamicRoute, RouteMatch } from "./types.ts";
+import { matchMediaType, negotiateRoute } from "./negotiation.ts";
+
+/** Node of the route tree (each node represents a path segment) */
+type Node = {
+    statics: Map<string, Node>;
+    dynamics: DynamicNode[];
+    wildcard?: Node;
+    routes: Map<string, DynamicRoute[]>;  // Routes by method ("*" matches any method), negotiated by media types
+}
+
+/** Node of the dynamic segment like `:user`, `:user?`, `:user(\\d+)` or `:name.:ext` */
+type DynamicNode = {
+    segment: string;
+    name?: string;       // Parameter name if the whole segment is a parameter
+    pattern: RegExp;
+    optional: boolean;
+    constrained: boolean;
+    node: Node;
+}
+
+const ANY_METHOD = "*";
 
 /**
  * Core Router
+ * Routes are stored in a tree of path segments and the matched result is
+ * created per request. The priority of segments is literal > parameter > wildcard.
+ * Parameters constrained by regular expressions and wildcards can match multiple segments (the longest first),
+ * and wildcards can be followed by other segments.
  *
  * @Author Marco
  * @Repository https://github.com/metadream/deno-cross
@@ -11,79 +36,315 @@ import { DynamicRoute } from "./types.ts";
  * @example `/:user`
  * @example `/:users?`
  * @example `/:user(\\d+)`
+ * @example `/:id(\\d+).json`
+ * @example `/:path(.+)`
  * @example `/*`
  */
 export class Router {
 
-    private routes: DynamicRoute[] = [];
-    private sortRule = ["", ":", "*"];
-    private sorted = false;
+    private root: Node = createNode();
+    private list: DynamicRoute[] = [];
 
     /**
      * Add a route
-     * @param {string} method
-     * @param {string|RegExp} path
-     * @param {Function} handler
+     * @param {DynamicRoute} route
      */
     add(route: DynamicRoute): void {
-        route.pattern = this.parse(route.path);
-        this.routes.push(route);
+        let node = this.root;
+        for (const segment of splitPath(route.path)) {
+            if (segment === "*") {
+                node = node.wildcard ??= createNode();
+            } else if (segment.includes(":")) {
+                node = this.addDynamic(node, segment);
+            } else {
+                let child = node.statics.get(segment);
+                if (!child) node.statics.set(segment, child = createNode());
+                node = child;
+            }
+        }
+        // The first route wins if conflicts (reported by `verify`)
+        const method = route.method || ANY_METHOD;
+        const routes = node.routes.get(method);
+        routes ? routes.push(route) : node.routes.set(method, [route]);
+        this.list.push(route);
+    }
+
+    /** Get all routes in the order of registration */
+    routes(): DynamicRoute[] {
+        return [...this.list];
     }
 
     /**
-     * Find a route
+     * Verify there are no duplicate or ambiguous routes
+     * (same method, same path after ignoring parameter names, and overlapping media types of @Produces and @Consumes).
+     * @throws error listing all conflicts with the controller and method names
+     */
+    verify(): void {
+        const seen = new Map<string, DynamicRoute[]>();
+        const names = new Map<string, DynamicRoute>();
+        const conflicts: string[] = [];
+
+        for (const route of this.list) {
+            const key = (route.method || ANY_METHOD) + " " + route.path.replace(/:\w+/g, ":");
+            const routes = seen.get(key);
+            const exists = routes?.find((r) => {
+                return overlaps(r.produces, route.produces) && overlaps(r.consumes, route.consumes);
+            });
+            if (exists) {
+                conflicts.push(`${describeRoute(route)} conflicts with ${describeRoute(exists)}`);
+            } else {
+                routes ? routes.push(route) : seen.set(key, [route]);
+            }
+
+            if (!route.name) continue;
+            const named = names.get(route.name);
+            if (named) {
+                conflicts.push(`Route name "${route.name}" of ${describeRoute(route)} is already used by ${describeRoute(named)}`);
+            } else {
+                names.set(route.name, route);
+            }
+        }
+        if (conflicts.length) {
+            throw new Error("Route conflicts detected:\n  " + conflicts.join("\n  "));
+        }
+    }
+
+    /**
+     * Build the path of the named route with parameters
+     * @param {string} name route name
+     * @param {Record<string, unknown>} params route parameters (`wildcard` for `/*`)
+     * @throws error if the route does not exist, or a parameter is missing or invalid
+     */
+    url(name: string, params: Record<string, unknown> = {}): string {
+        const route = this.list.find((r) => r.name === name);
+        if (!route) {
+            throw new Error("Route not found by name: " + name);
+        }
+
+        const fill = (key: string, regex?: string, optional?: boolean): string | undefined => {
+            const value = params[key];
+            if (value === undefined || value === null || value === "") {
+                if (optional) return undefined;
+                throw new Error(`Missing parameter "${key}" for route "${name}"`);
+            }
+            if (regex && !new RegExp("^(?:" + regex + ")$").test(String(value))) {
+                throw new Error(`Parameter "${key}" for route "${name}" does not match ${regex}`);
+            }
+            // Slashes are kept in values matching the regular expression (multiple segments)
+            return regex ? encodePath(String(value)) : encodeURIComponent(String(value));
+        };
+
+        const segments: string[] = [];
+        for (const segment of splitPath(route.path)) {
+            if (segment === "*") {
+                segments.push(encodePath(String(params.wildcard ?? "")));
+                continue;
+            }
+            const parts = parseSegment(segment);
+            const [param] = parts;
+            if (parts.length === 1 && typeof param !== "string") {
+                const value = fill(param.name, param.regex, param.optional);
+                if (value !== undefined) segments.push(value);
+                continue;
+            }
+            segments.push(parts.map((p) => typeof p === "string" ? p : fill(p.name, p.regex)!).join(""));
+        }
+        return segments.join("/") || "/";
+    }
+
+    /**
+     * Find a route (HEAD requests fall back to GET routes)
+     * Routes of the same path and method are negotiated by Content-Type and Accept headers.
      * @param {string} method
      * @param {string} url
-     * @returns
+     * @param {Headers} headers request headers for content negotiation
+     * @returns the matched route, parameters and negotiated media type
+     * @throws HttpError 415 or 406 if no route supports the media types of the request
+     */
+    find(method: string, url: string, headers: Headers = new Headers()): RouteMatch | undefined {
+        for (const [node, params] of this.walk(this.root, url.split("/"), 0, {})) {
+            const routes = node.routes.get(method)
+                ?? (method === "HEAD" ? node.routes.get("GET") : undefined)
+                ?? node.routes.get(ANY_METHOD);
+            if (routes) return { ...negotiateRoute(routes, headers), params };
+        }
+    }
+
+    /**
+     * Get the allowed methods of the url (including automatic HEAD and OPTIONS)
+     * @param {string} url
+     * @returns empty array if no route matches the url
      */
-    find(method: string, url: string): DynamicRoute | undefined {
-        if (!this.sorted) {
-            this.sorted = true;
-            this.sortRoutes();
+    allowedMethods(url: string): string[] {
+        const methods = new Set<string>();
+        for (const [node] of this.walk(this.root, url.split("/"), 0, {})) {
+            for (const method of node.routes.keys()) methods.add(method);
         }
+        if (!methods.size) return [];
+        if (methods.has("GET")) methods.add("HEAD");
+        methods.add("OPTIONS");
+        methods.delete(ANY_METHOD);
+        return [...methods];
+    }
 
-        for (const route of this.routes) {
-            if (route.method && route.method !== method) continue;
-            if (!route.pattern) continue;
+    /** Add dynamic segment node (reuse the node if the segment is the same) */
+    private addDynamic(node: Node, segment: string): Node {
+        const exists = node.dynamics.find((d) => d.segment === segment);
+        if (exists) return exists.node;
 
-            const matches = route.pattern.exec(url);
-            if (matches) {
-                const g = matches.groups;
-                route.params = {};
-                if (g) for (const k in g) route.params[k] = g[k];
-                return route;
-            }
+        const dynamic = this.parse(segment);
+        node.dynamics.push(dynamic);
+        // Parameters constrained by regular expression take precedence.
+        node.dynamics.sort((a, b) => Number(b.constrained) - Number(a.constrained));
+        return dynamic.node;
+    }
+
+    /** Parse the dynamic segment to regular expression */
+    private parse(segment: string): DynamicNode {
+        const parts = parseSegment(segment);
+        const [param] = parts;
+        if (parts.length === 1 && typeof param !== "string") {
+            return {
+                segment, name: param.name, optional: !!param.optional, constrained: !!param.regex,
+                pattern: new RegExp("^(?:" + (param.regex || "[^/]+") + ")$"),
+                node: createNode()
+            };
         }
+        // Parameters mixed with literals in one segment, such as `:name.:ext` (only literals are escaped)
+        const pattern = parts.map((p) => {
+            if (typeof p === "string") return p.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+            return `(?<${p.name}>${p.regex || "[^/]+?"})`;
+        }).join("");
+        return {
+            segment, optional: false, constrained: true,
+            pattern: new RegExp("^" + pattern + "$"),
+            node: createNode()
+        };
     }
 
-    /** Sort the routes by built-in rule */
-    private sortRoutes(): void {
-        this.routes.sort((a: DynamicRoute, b: DynamicRoute) => {
-            const aLen = a.path.length;
-            const bLen = b.path.length;
-            const maxLen = Math.max(aLen, bLen);
-
-            for (let i = 0; i < maxLen; i++) {
-                const aChar = a.path.charAt(i);
-                const bChar = b.path.charAt(i);
-                if (aChar == bChar) continue;
-
-                const aIndex = this.sortRule.findIndex((v) => v == aChar);
-                const bIndex = this.sortRule.findIndex((v) => v == bChar);
-                return aIndex - bIndex;
+    /** Walk the tree and yield all nodes matching the segments by priority */
+    private *walk(
+        node: Node, segments: string[], index: number, params: Record<string, string>
+    ): Generator<[Node, Record<string, string>]> {
+        if (index === segments.length) {
+            if (node.routes.size) yield [node, params];
+            for (const d of node.dynamics) {
+                if (d.optional) yield* this.walk(d.node, segments, index, params);
+            }
+        } else {
+            const segment = segments[index];
+            const child = node.statics.get(segment);
+            if (child) yield* this.walk(child, segments, index + 1, params);
+
+            for (const d of node.dynamics) {
+                // Constrained parameters are matched against multiple segments, the longest first.
+                let matched = false;
+                for (let end = d.constrained ? segments.length : index + 1; end > index; end--) {
+                    const value = segments.slice(index, end).join("/");
+                    const matches = d.pattern.exec(value);
+                    if (!matches) continue;
+                    matched = true;
+                    const values = d.name ? { [d.name]: value } : matches.groups;
+                    yield* this.walk(d.node, segments, end, { ...params, ...values });
+                }
+                if (!matched && d.optional && segment === "") {
+                    yield* this.walk(d.node, segments, index + 1, params);
+                }
+            }
+        }
+
+        // The wildcard matches the rest of the path (empty at the end), or the segments before the following ones.
+        if (node.wildcard) {
+            for (let end = segments.length; end >= Math.min(index + 1, segments.length); end--) {
+                const wildcard = segments.slice(index, end).join("/");
+                yield* this.walk(node.wildcard, segments, end, { ...params, wildcard });
             }
-            return 0;
-        });
+        }
     }
 
-    /** Parse th pattern to regular expression */
-    private parse(pattern: string | RegExp): RegExp {
-        return pattern instanceof RegExp ? pattern : new RegExp(
-            "^" + pattern
-            .replace(/\/\*($|\/)/g, "/(?<wildcard>.*)$1")
-            .replace(/:(\w+)(\(\S+\))?/g, (_, k, r) => `(?<${k}>${r ? r : "([^/]+?)"})`) +
-            "$",
-        );
+}
+
+/** Parameter of the route path with the optional regular expression */
+type PathParam = { name: string, regex?: string, optional?: boolean };
+
+/** Split the route path by slashes outside the parentheses of regular expressions like `:path([\\w/]+)` */
+function splitPath(path: string): string[] {
+    const segments: string[] = [];
+    let depth = 0, start = 0;
+    for (let i = 0; i < path.length; i++) {
+        const c = path[i];
+        if (c === "\\") i++;
+        else if (c === "(") depth++;
+        else if (c === ")") depth--;
+        else if (c === "/" && depth === 0) {
+            segments.push(path.slice(start, i));
+            start = i + 1;
+        }
     }
+    segments.push(path.slice(start));
+    return segments;
+}
+
+/** Parse the segment into literals and parameters (regular expressions may contain nested parentheses) */
+function parseSegment(segment: string): (string | PathParam)[] {
+    const parts: (string | PathParam)[] = [];
+    let literal = "";
+    for (let i = 0; i < segment.length;) {
+        const name = /^:(\w+)/.exec(segment.slice(i))?.[1];
+        if (!name) {
+            literal += segment[i++];
+            continue;
+        }
+        if (literal) parts.push(literal);
+        literal = "";
+        i += name.length + 1;
+
+        const param: PathParam = { name };
+        if (segment[i] === "(") {
+            const start = i;
+            for (let depth = 0; i < segment.length; i++) {
+                if (segment[i] === "\\") i++;
+                else if (segment[i] === "(") depth++;
+                else if (segment[i] === ")" && --depth === 0) break;
+            }
+            param.regex = segment.slice(start + 1, i++);
+        }
+        if (segment[i] === "?" && i === segment.length - 1) {
+            param.optional = true;
+            i++;
+        }
+        parts.push(param);
+    }
+    if (literal) parts.push(literal);
+    return parts;
+}
+
+/** Encode the path value and keep the slashes */
+function encodePath(value: string): string {
+    return value.split("/").map(encodeURIComponent).join("/");
+}
+
+/** Compile the path pattern like `/admin/*` (`*` matches any characters) to regular expression */
+export function compilePathPattern(pattern: string): RegExp {
+    return new RegExp("^" + pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*") + "$");
+}
+
+/** Describe the route with method, path and handler for error messages */
+export function describeRoute(route: DynamicRoute): string {
+    const handler = (route.controller || "Application") + "." + (route.handlerName || "anonymous");
+    return `${route.method || ANY_METHOD} ${route.path} (${handler})`;
+}
+
+/**
+ * Determine whether the media types of two routes overlap (a route without media types only overlaps another one
+ * without media types, since it is negotiated as the fallback)
+ */
+function overlaps(a?: string[], b?: string[]): boolean {
+    if (!a?.length || !b?.length) return !a?.length && !b?.length;
+    return a.some((x) => b.some((y) => matchMediaType(x, y) || matchMediaType(y, x)));
+}
 
-}
\ No newline at end of file
+/** Create an empty node */
+function createNode(): Node {
+    return { statics: new Map(), dynamics: [], routes: new Map() };
+}
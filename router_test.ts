@@ -0,0 +1,119 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { HttpContext } from "./context.ts";
+import { Controller, Get, Param, Post, Produces, Query } from "./decorators.ts";
+import { createApp } from "./mod.ts";
+import { TestClient } from "./testing.ts";
+
+/** Create a client of the application with routes returning their names and parameters */
+function createClient(routes: [string, string][]): TestClient {
+    const app = createApp();
+    app.errors({ logger: () => {} });
+    for (const [method, path] of routes) {
+        const handler = (ctx: HttpContext) => ({ route: `${method} ${path}`, params: ctx.request.params });
+        method === "GET" ? app.get(path, handler) : app.post(path, handler);
+    }
+    return new TestClient(app);
+}
+
+Deno.test("router: literal segments take precedence over parameters and wildcards", async () => {
+    const client = createClient([["GET", "/*"], ["GET", "/users/:id"], ["GET", "/users/me"]]);
+    assertEquals((await client.get("/users/me").expectStatus(200).json()).route, "GET /users/me");
+    assertEquals(await client.get("/users/42").json(), { route: "GET /users/:id", params: { id: "42" } });
+    assertEquals(await client.get("/posts/1").json(), { route: "GET /*", params: { wildcard: "posts/1" } });
+});
+
+Deno.test("router: constrained parameters take precedence and fall back when not matched", async () => {
+    const client = createClient([["GET", "/items/:slug"], ["GET", "/items/:id(\\d+)"]]);
+    assertEquals((await client.get("/items/7").json()).route, "GET /items/:id(\\d+)");
+    assertEquals((await client.get("/items/abc").json()).route, "GET /items/:slug");
+});
+
+Deno.test("router: optional and mixed segments", async () => {
+    const client = createClient([["GET", "/archive/:year?"], ["GET", "/files/:name.:ext"]]);
+    assertEquals((await client.get("/archive/2024").json()).params, { year: "2024" });
+    assertEquals((await client.get("/archive").expectStatus(200).json()).route, "GET /archive/:year?");
+    assertEquals((await client.get("/files/report.pdf").json()).params, { name: "report", ext: "pdf" });
+    await client.get("/files/report").expectStatus(404);
+});
+
+Deno.test("router: 405 with Allow header, automatic HEAD and OPTIONS", async () => {
+    const client = createClient([["GET", "/things"], ["POST", "/things"]]);
+    await client.delete("/things").expectStatus(405).expectHeader("Allow", "GET, POST, HEAD, OPTIONS");
+    await client.options("/things").expectStatus(204).expectHeader("Allow", "GET, POST, HEAD, OPTIONS");
+
+    const head = await client.head("/things").expectStatus(200).expectHeader("Content-Type", /json/);
+    assertEquals(await head.text(), "");
+    await client.options("/missing").expectStatus(404);
+});
+
+Deno.test("router: regular expressions of parameters and wildcards can match multiple segments", async () => {
+    const client = createClient([
+        ["GET", "/docs/:path(.+)"], ["GET", "/files/*/raw"], ["GET", "/tree/:dir([\\w/]+)/edit"]
+    ]);
+    assertEquals((await client.get("/docs/guide/intro").json()).params, { path: "guide/intro" });
+    assertEquals((await client.get("/files/a/b/raw").json()).params, { wildcard: "a/b" });
+    assertEquals((await client.get("/tree/src/lib/edit").json()).params, { dir: "src/lib" });
+    await client.get("/files/raw").expectStatus(404);
+});
+
+Deno.test("router: only literals of mixed segments are escaped", async () => {
+    const client = createClient([["GET", "/items/:id(\\d+).json"], ["GET", "/assets/:name([\\w-]+).min.:ext(js|css)"]]);
+    assertEquals((await client.get("/items/42.json").json()).params, { id: "42" });
+    await client.get("/items/42xjson").expectStatus(404);
+    await client.get("/items/abc.json").expectStatus(404);
+    assertEquals((await client.get("/assets/app-1.min.js").json()).params, { name: "app-1", ext: "js" });
+    await client.get("/assets/app-1xminxjs").expectStatus(404);
+    await client.get("/assets/app-1.min.png").expectStatus(404);
+});
+
+Deno.test("router: duplicate routes and names are reported at bootstrap", () => {
+    @Controller("/orders")
+    class OrderController {
+        @Get("/:id", { name: "order" })
+        show() {}
+
+        @Get("/:orderId")
+        find() {}
+
+        @Post("/:id", { name: "order" })
+        update() {}
+
+        @Get("/:id/items")
+        items() {}
+    }
+    const error = assertThrows(() => createApp({ controllers: [OrderController] }), Error);
+    assertEquals(error.message, [
+        "Route conflicts detected:",
+        "  GET /orders/:orderId (OrderController.find) conflicts with GET /orders/:id (OrderController.show)",
+        '  Route name "order" of POST /orders/:id (OrderController.update) is already used by ' +
+            "GET /orders/:id (OrderController.show)",
+    ].join("\n"));
+});
+
+Deno.test("router: routes are listed with handlers and parameter bindings", () => {
+    @Controller("/books")
+    class BookController {
+        @Get("/:id")
+        @Produces("application/json")
+        show(@Param id: number, @Query fields: string) {
+            return { id, fields };
+        }
+    }
+    const app = createApp({ controllers: [BookController] });
+    app.get("/health", () => "ok");
+    assertEquals(app.routes(), [
+        {
+            name: "BookController.show", method: "GET", path: "/books/:id", controller: "BookController",
+            handler: "show", template: undefined, produces: ["application/json"], consumes: undefined,
+            parameters: [
+                { name: "id", decorator: "Param", type: "Number" },
+                { name: "fields", decorator: "Query", type: "String" }
+            ]
+        },
+        {
+            name: undefined, method: "GET", path: "/health", controller: undefined, handler: "anonymous",
+            template: undefined, produces: undefined, consumes: undefined,
+            parameters: [{ name: "_", decorator: undefined, type: "HttpContext" }]
+        },
+    ]);
+});
@@ -0,0 +1,190 @@
+import { join, resolve } from "@std/path";
+import { Session, SessionStore } from "./types.ts";
+
+/** Only safe characters are allowed in session id (used as file name or key) */
+const SESSION_ID_PATTERN = /^[\w-]{1,128}$/;
+
+/** Maximum attempts to refresh the expiration of the session changed concurrently */
+const MAX_TOUCH_ATTEMPTS = 3;
+
+/**
+ * Memory Session Store
+ * Sessions are kept in the process and lost after restart.
+ *
+ * @Author Marco
+ * @Repository https://github.com/metadream/deno-cross
+ * @Since 2025-06-08
+ */
+export class MemoryStore implements SessionStore {
+
+    private sessions = new Map<string, Session>();
+
+    get(id: string): Promise<Session | undefined> {
+        const session = this.sessions.get(id);
+        if (session && session.expires < Date.now()) {
+            this.sessions.delete(id);
+            return Promise.resolve(undefined);
+        }
+        return Promise.resolve(session && structuredClone(session));
+    }
+
+    set(id: string, session: Session): Promise<void> {
+        this.sessions.set(id, structuredClone(session));
+        return Promise.resolve();
+    }
+
+    touch(id: string, expires: number): Promise<void> {
+        const session = this.sessions.get(id);
+        if (session) session.expires = expires;
+        return Promise.resolve();
+    }
+
+    destroy(id: string): Promise<void> {
+        this.sessions.delete(id);
+        return Promise.resolve();
+    }
+
+    sweep(): Promise<void> {
+        const now = Date.now();
+        for (const [id, session] of this.sessions) {
+            if (session.expires < now) this.sessions.delete(id);
+        }
+        return Promise.resolve();
+    }
+
+}
+
+/**
+ * Deno KV Session Store
+ * Sessions are expired automatically by KV, so they can be shared by multiple instances.
+ *
+ * @Author Marco
+ * @Repository https://github.com/metadream/deno-cross
+ * @Since 2025-06-08
+ * @example `new KvStore(await Deno.openKv())`
+ */
+export class KvStore implements SessionStore {
+
+    private kv: Deno.Kv;
+    private prefix: string;
+
+    constructor(kv: Deno.Kv, prefix: string = "sessions") {
+        this.kv = kv;
+        this.prefix = prefix;
+    }
+
+    async get(id: string): Promise<Session | undefined> {
+        const entry = await this.kv.get<Session>([this.prefix, id]);
+        const session = entry.value;
+        return session && session.expires >= Date.now() ? session : undefined;
+    }
+
+    async set(id: string, session: Session): Promise<void> {
+        const expireIn = Math.max(session.expires - Date.now(), 1);
+        await this.kv.set([this.prefix, id], session, { expireIn });
+    }
+
+    /**
+     * Refresh the expiration only if the session has not been changed since it is read,
+     * so that the data saved by a concurrent request is never overwritten by a stale copy.
+     */
+    async touch(id: string, expires: number): Promise<void> {
+        const key = [this.prefix, id];
+        for (let i = 0; i < MAX_TOUCH_ATTEMPTS; i++) {
+            const entry = await this.kv.get<Session>(key);
+            if (!entry.value || entry.value.expires < Date.now()) return;
+
+            const expireIn = Math.max(expires - Date.now(), 1);
+            const result = await this.kv.atomic().check(entry)
+                .set(key, { ...entry.value, expires }, { expireIn })
+                .commit();
+            if (result.ok) return;
+        }
+    }
+
+    async destroy(id: string): Promise<void> {
+        await this.kv.delete([this.prefix, id]);
+    }
+
+    sweep(): Promise<void> {
+        // Expired entries are deleted by KV automatically.
+        return Promise.resolve();
+    }
+
+}
+
+/**
+ * File System Session Store
+ * Each session is saved as a JSON file in the directory. The expiration refreshed by `touch` is kept in the
+ * modification time of the file, so that the data is never rewritten by a stale copy.
+ *
+ * @Author Marco
+ * @Repository https://github.com/metadream/deno-cross
+ * @Since 2025-06-08
+ * @example `new FileStore("./sessions")`
+ */
+export class FileStore implements SessionStore {
+
+    private dir: string;
+
+    constructor(dir: string) {
+        this.dir = resolve(dir);
+        Deno.mkdirSync(this.dir, { recursive: true });
+    }
+
+    async get(id: string): Promise<Session | undefined> {
+        const session = await this.read(id);
+        if (session && session.expires < Date.now()) {
+            await this.destroy(id);
+            return undefined;
+        }
+        return session;
+    }
+
+    async set(id: string, session: Session): Promise<void> {
+        if (!SESSION_ID_PATTERN.test(id)) return;
+        // Write to temporary file and rename it to avoid reading half-written files.
+        const file = this.path(id);
+        await Deno.writeTextFile(file + ".tmp", JSON.stringify(session));
+        await Deno.utime(file + ".tmp", new Date(), new Date(session.expires));
+        await Deno.rename(file + ".tmp", file);
+    }
+
+    async touch(id: string, expires: number): Promise<void> {
+        if (!SESSION_ID_PATTERN.test(id)) return;
+        await Deno.utime(this.path(id), new Date(), new Date(expires)).catch(() => {});
+    }
+
+    async destroy(id: string): Promise<void> {
+        if (!SESSION_ID_PATTERN.test(id)) return;
+        await Deno.remove(this.path(id)).catch(() => {});
+    }
+
+    async sweep(): Promise<void> {
+        const now = Date.now();
+        for await (const entry of Deno.readDir(this.dir)) {
+            if (!entry.isFile || !entry.name.endsWith(".json")) continue;
+            const id = entry.name.slice(0, -5);
+            const session = await this.read(id);
+            if (!session || session.expires < now) await this.destroy(id);
+        }
+    }
+
+    /** Read session file with the expiration refreshed by `touch`, return undefined if not exists or broken */
+    private async read(id: string): Promise<Session | undefined> {
+        if (!SESSION_ID_PATTERN.test(id)) return undefined;
+        try {
+            const path = this.path(id);
+            const session: Session = JSON.parse(await Deno.readTextFile(path));
+            const { mtime } = await Deno.stat(path);
+            return { ...session, expires: Math.max(session.expires, mtime?.getTime() ?? 0) };
+        } catch {
+            return undefined;
+        }
+    }
+
+    private path(id: string): string {
+        return join(this.dir, id + ".json");
+    }
+
+}
@@ -0,0 +1,168 @@
+import { assert, assertEquals, assertMatch, assertNotEquals } from "@std/assert";
+import { HttpContext } from "./context.ts";
+import { createApp } from "./mod.ts";
+import { FileStore, KvStore, MemoryStore } from "./session.ts";
+import { TestClient } from "./testing.ts";
+import { Session, SessionOptions, SessionStore } from "./types.ts";
+
+/** Run the test with each built-in store */
+function testStores(name: string, fn: (store: SessionStore) => Promise<void>): void {
+    Deno.test(`session: ${name} (memory)`, () => fn(new MemoryStore()));
+    Deno.test(`session: ${name} (kv)`, async () => {
+        const kv = await Deno.openKv(":memory:");
+        try {
+            await fn(new KvStore(kv));
+        } finally {
+            kv.close();
+        }
+    });
+    Deno.test(`session: ${name} (file)`, async () => {
+        const dir = await Deno.makeTempDir({ prefix: "cross-sessions-" });
+        try {
+            await fn(new FileStore(dir));
+        } finally {
+            await Deno.remove(dir, { recursive: true });
+        }
+    });
+}
+
+/** Create a session expiring after the milliseconds */
+function createSession(data: Record<string, unknown>, expiresIn = 60 * 1000): Session {
+    return { data, created: Date.now(), expires: Date.now() + expiresIn };
+}
+
+testStores("saved sessions are read as copies until destroyed", async (store) => {
+    const session = createSession({ user: "alice", roles: ["admin"] });
+    await store.set("s1", session);
+    session.data.user = "changed";
+
+    const saved = await store.get("s1");
+    assertEquals(saved?.data, { user: "alice", roles: ["admin"] });
+    assertEquals(await store.get("missing"), undefined);
+
+    await store.destroy("s1");
+    assertEquals(await store.get("s1"), undefined);
+});
+
+testStores("expired sessions are not read and swept", async (store) => {
+    await store.set("old", createSession({ n: 1 }, -1000));
+    await store.set("new", createSession({ n: 2 }));
+    assertEquals(await store.get("old"), undefined);
+
+    await store.sweep();
+    assertEquals((await store.get("new"))?.data, { n: 2 });
+});
+
+testStores("touch only refreshes the expiration", async (store) => {
+    const session = createSession({ step: 1 });
+    await store.set("s1", session);
+
+    // Another request saves new data, then a request which only read the stale session refreshes it.
+    await store.set("s1", { ...session, data: { step: 2 } });
+    const expires = Date.now() + 120 * 1000;
+    await store.touch("s1", expires);
+
+    const saved = await store.get("s1");
+    assertEquals(saved?.data, { step: 2 });
+    assert(saved!.expires >= expires - 1000, "expiration is not refreshed");
+
+    await store.touch("missing", expires);
+    assertEquals(await store.get("missing"), undefined);
+});
+
+testStores("concurrent touch does not overwrite saved data", async (store) => {
+    const session = createSession({ step: 1 });
+    await store.set("s1", session);
+    for (let step = 2; step < 10; step++) {
+        await Promise.all([store.touch("s1", Date.now() + 60 * 1000), store.set("s1", { ...session, data: { step } })]);
+        assertEquals((await store.get("s1"))?.data, { step });
+    }
+});
+
+Deno.test("session: file store ignores unsafe session ids", async () => {
+    const dir = await Deno.makeTempDir({ prefix: "cross-sessions-" });
+    try {
+        const store = new FileStore(dir);
+        await store.set("../escape", createSession({ n: 1 }));
+        assertEquals(await store.get("../escape"), undefined);
+        assertEquals([...Deno.readDirSync(dir)].length, 0);
+    } finally {
+        await Deno.remove(dir, { recursive: true });
+    }
+});
+
+/** Create an application with session routes */
+function createSessionApp(options: Partial<SessionOptions> = {}) {
+    const app = createApp();
+    app.sessions(options);
+    app.get("/read", async (ctx: HttpContext) => ({ user: await ctx.session.get("user") ?? null }));
+    app.get("/login", async (ctx: HttpContext) => {
+        await ctx.session.set("user", "alice");
+        await ctx.session.regenerate();
+        return "ok";
+    });
+    app.get("/write", async (ctx: HttpContext) => {
+        await ctx.session.set("user", ctx.request.query.user);
+        return "ok";
+    });
+    app.get("/flash", async (ctx: HttpContext) => {
+        await ctx.session.flash("notice", "Saved");
+        return "ok";
+    });
+    app.get("/notice", async (ctx: HttpContext) => ({ notice: await ctx.session.flash("notice") ?? null }));
+    return app;
+}
+
+Deno.test("session: cookie is only set when data is modified, with secure attributes", async () => {
+    const app = createSessionApp();
+    const client = new TestClient(app);
+    const read = await client.get("/read");
+    assertEquals(read.headers.get("Set-Cookie"), null);
+
+    const written = await client.get("/write?user=bob");
+    const cookie = written.headers.get("Set-Cookie")!;
+    assertMatch(cookie, /^SESSION_ID=[\w-]+; /);
+    assertMatch(cookie, /HttpOnly/);
+    assertMatch(cookie, /SameSite=Lax/);
+    assertMatch(cookie, /Path=\//);
+    assert(!cookie.includes("Secure"));
+    assertEquals(await client.get("/read").json(), { user: "bob" });
+
+    const https = new TestClient(app, "https://localhost");
+    assertMatch((await https.get("/write?user=eve")).headers.get("Set-Cookie")!, /Secure/);
+});
+
+Deno.test("session: regenerate rotates the id and keeps the data", async () => {
+    const app = createSessionApp();
+    const client = new TestClient(app);
+    await client.get("/write?user=guest");
+    const before = client.cookies.get("SESSION_ID");
+    const fixated = new TestClient(app);
+    fixated.cookies.set("SESSION_ID", before!);
+
+    await client.get("/login");
+    assertNotEquals(client.cookies.get("SESSION_ID"), before);
+    assertEquals(await client.get("/read").json(), { user: "alice" });
+    assertEquals(await fixated.get("/read").json(), { user: null });
+});
+
+Deno.test("session: flash messages are removed after read", async () => {
+    const client = new TestClient(createSessionApp());
+    await client.get("/flash");
+    assertEquals(await client.get("/notice").json(), { notice: "Saved" });
+    assertEquals(await client.get("/notice").json(), { notice: null });
+});
+
+Deno.test("session: idle and absolute timeouts expire the session", async () => {
+    const idle = new TestClient(createSessionApp({ maxAge: 0.05 }));
+    await idle.get("/write?user=bob");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assertEquals(await idle.get("/read").json(), { user: null });
+
+    const absolute = new TestClient(createSessionApp({ absoluteTimeout: 0.15 }));
+    await absolute.get("/write?user=bob");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assertEquals(await absolute.get("/read").json(), { user: "bob" });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assertEquals(await absolute.get("/read").json(), { user: null });
+});
@@ -0,0 +1,345 @@
+import { STATUS_CODE } from "@std/http/status";
+import { contentType } from "@std/media-types";
+import { extname, join, SEPARATOR } from "@std/path";
+import { CachePolicy, ResourceMount, ResourceOptions } from "./types.ts";
+import { ForbiddenError, HttpRequest, NotFoundError } from "./context.ts";
+import { acceptedEncodings, compress, COMPRESSION_FORMATS, isCompressible } from "./compression.ts";
+
+/** Byte range of the file (both ends are inclusive) */
+type ByteRange = {
+    start: number;
+    end: number;
+}
+
+const THRESHOLD = 500 * 1024;  // Files larger than 500KB are streamed.
+const MAX_RANGES = 16;         // Requests with more ranges are served with the whole file.
+const CHUNK_SIZE = 64 * 1024;
+const MIN_COMPRESS_SIZE = 1024;  // Smaller files are not worth compressing on the fly.
+const INDEX_FILES = ["index.html"];
+
+/** File extensions of precompressed variants by encoding */
+const PRECOMPRESSED: Record<string, string> = { br: ".br", gzip: ".gz" };
+const ENCODINGS = [...new Set([...Object.keys(PRECOMPRESSED), ...COMPRESSION_FORMATS])];
+const encoder = new TextEncoder();
+
+/**
+ * Serve the static resource of the mount. Directories are served by index files (or listed if enabled),
+ * and missing HTML pages are served by the fallback file (e.g. `index.html` of SPAs using the history API).
+ * Missing and hidden files throw NotFoundError, and paths escaping the root by `..` segments or symbolic links
+ * throw ForbiddenError, so that they are handled by error handlers like dynamic routes.
+ */
+export async function serveResource(request: HttpRequest, mount: ResourceMount): Promise<Response> {
+    const { pathname } = request;
+    const { fsPath, fsRoot, options } = mount;
+    if (!pathname.startsWith(fsPath)) return redirectToDirectory(request);
+
+    const segments = pathname.slice(fsPath.length).split("/");
+    const file = await resolveFile(fsRoot, segments, options);
+    if (file?.stat.isFile) {
+        return serveFile(request, file.path, file.stat, options);
+    }
+    if (file?.stat.isDirectory) {
+        if (!pathname.endsWith("/")) return redirectToDirectory(request);
+        for (const index of options.index ?? INDEX_FILES) {
+            const indexFile = await resolveFile(fsRoot, [...segments, index], options);
+            if (indexFile?.stat.isFile) return serveFile(request, indexFile.path, indexFile.stat, options);
+        }
+        if (options.listing) return listDirectory(request, file.path, options, pathname !== fsPath);
+    }
+
+    // Pages requested by browsers are served by the fallback file, other resources are not.
+    if (options.fallback && request.headers.get("Accept")?.includes("text/html")) {
+        const fallback = await resolveFile(fsRoot, options.fallback.split("/"), options);
+        if (fallback?.stat.isFile) return serveFile(request, fallback.path, fallback.stat, options);
+    }
+    throw new NotFoundError("Resource not found: " + pathname);
+}
+
+/**
+ * Serve the static file with validators (ETag and Last-Modified), conditional requests
+ * (If-None-Match and If-Modified-Since with 304), and byte range requests (single and multiple ranges with 206,
+ * If-Range, and 416 if no range is satisfiable).
+ * Compressible files are served by precompressed variants (`.br` and `.gz` siblings) if accepted,
+ * or compressed on the fly (except range requests).
+ */
+export async function serveFile(
+    request: Request, filePath: string, stat: Deno.FileInfo, options: ResourceOptions = {}
+): Promise<Response> {
+    const { method } = request;
+    if (method !== "GET" && method !== "HEAD") {
+        return new Response(null, { status: STATUS_CODE.MethodNotAllowed, headers: { "Allow": "GET, HEAD" } });
+    }
+
+    const mimeType = contentType(extname(filePath)) || "application/octet-stream";
+    const headers = new Headers({ "Accept-Ranges": "bytes" });
+    const cacheControl = getCacheControl(options.cacheControl, new URL(request.url).pathname);
+    if (cacheControl) headers.set("Cache-Control", cacheControl);
+
+    // Negotiate the content encoding of compressible files.
+    let encoding: string | undefined;
+    let compressed = false;
+    if (isCompressible(mimeType)) {
+        headers.set("Vary", "Accept-Encoding");
+        const encodings = acceptedEncodings(request.headers.get("Accept-Encoding"), ENCODINGS);
+        const variant = options.precompressed === false ? undefined : await findVariant(filePath, encodings);
+        if (variant) {
+            ({ filePath, stat, encoding } = variant);
+        } else if (options.compress !== false && stat.size >= MIN_COMPRESS_SIZE && !request.headers.has("Range")) {
+            encoding = encodings.find((e) => COMPRESSION_FORMATS.includes(e));
+            compressed = !!encoding;
+        }
+        if (encoding) headers.set("Content-Encoding", encoding);
+    }
+
+    const etag = createETag(stat, options.etag ?? "strong", compressed ? encoding : undefined);
+    if (etag) headers.set("ETag", etag);
+    if (stat.mtime) headers.set("Last-Modified", stat.mtime.toUTCString());
+
+    // Handle conditional caching (304 status).
+    if (isNotModified(request.headers, etag, stat.mtime)) {
+        return new Response(null, { status: STATUS_CODE.NotModified, headers });
+    }
+
+    // Set Content-Type response header.
+    headers.set("Content-Type", mimeType);
+
+    // Files compressed on the fly are always streamed without Content-Length.
+    if (compressed) {
+        if (method === "HEAD") return new Response(null, { headers });
+        const file = await Deno.open(filePath, { read: true });
+        return new Response(compress(file.readable, encoding!), { headers });
+    }
+
+    // Parse the ranges only if the validator of If-Range matches the current file.
+    const rangeHeader = request.headers.get("Range");
+    const ranges = rangeHeader && isRangeFresh(request.headers, etag, stat.mtime)
+        ? parseRanges(rangeHeader, stat.size) : undefined;
+
+    if (ranges?.length === 0) {
+        headers.set("Content-Range", `bytes */${stat.size}`);
+        return new Response(null, { status: STATUS_CODE.RangeNotSatisfiable, headers });
+    }
+    if (ranges?.length === 1) {
+        const [{ start, end }] = ranges;
+        headers.set("Content-Range", `bytes ${start}-${end}/${stat.size}`);
+        headers.set("Content-Length", String(end - start + 1));
+        const body = method === "HEAD" ? null : await readRanges(filePath, stat, ranges);
+        return new Response(body, { status: STATUS_CODE.PartialContent, headers });
+    }
+    if (ranges) {
+        const boundary = crypto.randomUUID().replaceAll("-", "");
+        const parts = ranges.map(({ start, end }) => encoder.encode(
+            `--${boundary}\r\nContent-Type: ${mimeType}\r\nContent-Range: bytes ${start}-${end}/${stat.size}\r\n\r\n`
+        ));
+        const closing = encoder.encode(`--${boundary}--\r\n`);
+        const length = ranges.reduce((sum, { start, end }, i) => sum + parts[i].length + end - start + 1 + 2, 0);
+
+        headers.set("Content-Type", `multipart/byteranges; boundary=${boundary}`);
+        headers.set("Content-Length", String(length + closing.length));
+        const body = method === "HEAD" ? null : await readRanges(filePath, stat, ranges, parts, closing);
+        return new Response(body, { status: STATUS_CODE.PartialContent, headers });
+    }
+
+    // Choose different file reading methods based on file size:
+    // read small files directly, and stream large files for output.
+    headers.set("Content-Length", String(stat.size));
+    if (method === "HEAD") {
+        return new Response(null, { headers });
+    } else if (stat.size <= THRESHOLD) {
+        return new Response(await Deno.readFile(filePath), { headers });
+    } else {
+        const file = await Deno.open(filePath, { read: true });
+        return new Response(file.readable, { headers });
+    }
+}
+
+/**
+ * Create the ETag by the modification time and size of the file.
+ * ETags of files compressed on the fly are weak and distinguished by the encoding.
+ */
+function createETag(stat: Deno.FileInfo, type: "strong" | "weak" | false, encoding?: string): string | undefined {
+    if (!type) return;
+    const suffix = encoding ? "-" + encoding : "";
+    const tag = `"${(stat.mtime?.getTime() ?? 0).toString(36)}-${stat.size.toString(36)}${suffix}"`;
+    return type === "weak" || encoding ? "W/" + tag : tag;
+}
+
+/**
+ * Resolve the file of the path segments within the root.
+ * Returns undefined if the file does not exist or is hidden (dotfiles are hidden by default),
+ * and throws ForbiddenError if the path escapes the root.
+ */
+async function resolveFile(
+    root: string, segments: string[], options: ResourceOptions
+): Promise<{ path: string, stat: Deno.FileInfo } | undefined> {
+    segments = segments.filter((segment) => segment && segment !== ".");
+    if (segments.some((segment) => segment === ".." || segment.includes("\\") || segment.includes("\0"))) {
+        throw new ForbiddenError("Resource path is not allowed");
+    }
+    if (!options.dotfiles && segments.some((segment) => segment.startsWith("."))) return;
+
+    // Symbolic links are followed only within the root.
+    const filePath = join(root, ...segments);
+    try {
+        const [realPath, realRoot] = await Promise.all([Deno.realPath(filePath), Deno.realPath(root)]);
+        if (realPath !== realRoot && !realPath.startsWith(realRoot + SEPARATOR)) {
+            throw new ForbiddenError("Resource path is not allowed");
+        }
+        return { path: filePath, stat: await Deno.stat(realPath) };
+    } catch (err) {
+        if (err instanceof Deno.errors.NotFound) return;
+        throw err;
+    }
+}
+
+/** Redirect to the path ending with "/", so that relative links of index files work */
+function redirectToDirectory(request: HttpRequest): Response {
+    const location = request.uri.pathname + "/" + request.uri.search;
+    return new Response(null, { status: STATUS_CODE.MovedPermanently, headers: { "Location": location } });
+}
+
+/** List entries of the directory as an HTML page (directories first) */
+async function listDirectory(
+    request: HttpRequest, dirPath: string, options: ResourceOptions, hasParent: boolean
+): Promise<Response> {
+    const entries: string[] = [];
+    for await (const { name, isDirectory } of Deno.readDir(dirPath)) {
+        if (options.dotfiles || !name.startsWith(".")) entries.push(isDirectory ? name + "/" : name);
+    }
+    entries.sort((a, b) => Number(b.endsWith("/")) - Number(a.endsWith("/")) || a.localeCompare(b));
+    if (hasParent) entries.unshift("../");
+
+    const title = escapeHtml("Index of " + request.pathname);
+    const items = entries.map((name) => {
+        const href = name.split("/").map(encodeURIComponent).join("/");
+        return `<li><a href="${href}">${escapeHtml(name)}</a></li>`;
+    });
+    const html = `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${title}</title></head>`
+        + `<body><h1>${title}</h1><ul>${items.join("")}</ul></body></html>`;
+    const headers = { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-cache" };
+    return new Response(request.method === "HEAD" ? null : html, { headers });
+}
+
+/** Escape special characters of HTML */
+function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/** Find the precompressed variant of the file by the accepted encodings in order */
+async function findVariant(
+    filePath: string, encodings: string[]
+): Promise<{ filePath: string, stat: Deno.FileInfo, encoding: string } | undefined> {
+    for (const encoding of encodings) {
+        const ext = PRECOMPRESSED[encoding];
+        if (!ext) continue;
+        try {
+            const stat = await Deno.stat(filePath + ext);
+            if (stat.isFile) return { filePath: filePath + ext, stat, encoding };
+        } catch (err) {
+            if (!(err instanceof Deno.errors.NotFound)) throw err;
+        }
+    }
+}
+
+/** Get the Cache-Control value of the first policy matching the request path */
+function getCacheControl(policies: string | CachePolicy[] | undefined, pathname: string): string | undefined {
+    if (typeof policies === "string") return policies;
+    return policies?.find(({ match }) => !match || match.test(pathname))?.value;
+}
+
+/**
+ * Determine whether the client cache is fresh: If-None-Match is compared weakly with the ETag,
+ * and If-Modified-Since is only evaluated without If-None-Match.
+ */
+function isNotModified(headers: Headers, etag?: string, mtime?: Date | null): boolean {
+    const ifNoneMatch = headers.get("If-None-Match");
+    if (ifNoneMatch) {
+        if (ifNoneMatch.trim() === "*") return true;
+        return !!etag && ifNoneMatch.split(",").some((tag) => weakTag(tag.trim()) === weakTag(etag));
+    }
+    const ifModifiedSince = headers.get("If-Modified-Since");
+    if (ifModifiedSince && mtime) {
+        const since = Date.parse(ifModifiedSince);
+        return !isNaN(since) && Math.floor(mtime.getTime() / 1000) <= Math.floor(since / 1000);
+    }
+    return false;
+}
+
+/** Determine whether the If-Range validator (strong ETag or Last-Modified) matches the file */
+function isRangeFresh(headers: Headers, etag?: string, mtime?: Date | null): boolean {
+    const ifRange = headers.get("If-Range")?.trim();
+    if (!ifRange) return true;
+    if (ifRange.startsWith('"') || ifRange.startsWith("W/")) {
+        return !!etag && !etag.startsWith("W/") && ifRange === etag;
+    }
+    return !!mtime && Date.parse(ifRange) === Math.floor(mtime.getTime() / 1000) * 1000;
+}
+
+/** Remove the weak indicator of the ETag */
+function weakTag(etag: string): string {
+    return etag.startsWith("W/") ? etag.slice(2) : etag;
+}
+
+/**
+ * Parse the Range header (`bytes=0-499, 1000-, -500`) into ranges within the file size.
+ * Returns undefined if the header is invalid or has too many ranges (the whole file is served),
+ * or an empty array if no range is satisfiable.
+ */
+function parseRanges(header: string, size: number): ByteRange[] | undefined {
+    const [unit, value] = header.split("=", 2);
+    if (unit.trim().toLowerCase() !== "bytes" || !value) return;
+
+    const specs = value.split(",");
+    if (specs.length > MAX_RANGES) return;
+
+    const ranges: ByteRange[] = [];
+    for (const spec of specs) {
+        const match = /^\s*(\d*)\s*-\s*(\d*)\s*$/.exec(spec);
+        if (!match || (!match[1] && !match[2])) return;
+
+        let start: number, end: number;
+        if (!match[1]) {
+            // Suffix range: the last N bytes
+            start = Math.max(size - Number(match[2]), 0);
+            end = size - 1;
+            if (Number(match[2]) === 0) continue;
+        } else {
+            start = Number(match[1]);
+            end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+            if (match[2] && Number(match[2]) < start) return;
+        }
+        if (start < size) ranges.push({ start, end });
+    }
+    return ranges;
+}
+
+/**
+ * Read the ranges of the file as a stream. Multiple ranges are written as parts of multipart/byteranges
+ * with the headers of each part and the closing boundary.
+ */
+async function readRanges(
+    filePath: string, stat: Deno.FileInfo, ranges: ByteRange[], parts?: Uint8Array[], closing?: Uint8Array
+): Promise<ReadableStream<Uint8Array>> {
+    const file = await Deno.open(filePath, { read: true });
+    async function* generate(): AsyncGenerator<Uint8Array> {
+        try {
+            for (const [i, { start, end }] of ranges.entries()) {
+                if (parts) yield parts[i];
+                await file.seek(start, Deno.SeekMode.Start);
+                let remaining = end - start + 1;
+                while (remaining > 0) {
+                    const buffer = new Uint8Array(Math.min(CHUNK_SIZE, remaining));
+                    const n = await file.read(buffer);
+                    if (n === null) throw new Error(`Unexpected end of file: ${filePath} (${stat.size} bytes)`);
+                    remaining -= n;
+                    yield buffer.subarray(0, n);
+                }
+                if (parts) yield encoder.encode("\r\n");
+            }
+            if (closing) yield closing;
+        } finally {
+            file.close();
+        }
+    }
+    return ReadableStream.from(generate());
+}
@@ -0,0 +1,215 @@
+import { assert, assertEquals, assertMatch, assertStringIncludes } from "@std/assert";
+import { STATUS_TEXT } from "@std/http/status";
+import { HttpError } from "./context.ts";
+import { ErrorHandler, Middleware } from "./decorators.ts";
+import { createApp } from "./mod.ts";
+import { TestClient } from "./testing.ts";
+import { ResourceOptions } from "./types.ts";
+
+const CONTENT = "0123456789".repeat(10);
+
+/** Run the test with the client of an application serving a temporary directory at `/static` */
+async function withResources(
+    fn: (client: TestClient) => Promise<void>, options?: ResourceOptions, files: Record<string, BodyInit> = {}
+): Promise<void> {
+    const root = await Deno.makeTempDir({ prefix: "cross-static-" });
+    try {
+        await Deno.writeTextFile(root + "/data.txt", CONTENT);
+        for (const [name, content] of Object.entries(files)) {
+            await Deno.writeFile(root + "/" + name, new Uint8Array(await new Response(content).arrayBuffer()));
+        }
+        const app = createApp();
+        app.errors({ logger: () => {} });
+        app.resources("/static", root, options);
+        await fn(new TestClient(app));
+    } finally {
+        await Deno.remove(root, { recursive: true });
+    }
+}
+
+Deno.test("static: validators and conditional requests", () => withResources(async (client) => {
+    const response = await client.get("/static/data.txt").expectStatus(200)
+        .expectHeader("Accept-Ranges", "bytes").expectHeader("Last-Modified");
+    assertEquals(await response.text(), CONTENT);
+    const etag = response.headers.get("ETag")!;
+    assertMatch(etag, /^"[^"]+"$/);
+
+    await client.get("/static/data.txt").header("If-None-Match", etag).expectStatus(304).expectHeader("ETag", etag);
+    await client.get("/static/data.txt").header("If-None-Match", `"other", W/${etag}`).expectStatus(304);
+    await client.get("/static/data.txt").header("If-None-Match", '"other"').expectStatus(200);
+}));
+
+Deno.test("static: single byte ranges", () => withResources(async (client) => {
+    const range = async (header: string) => {
+        const response = await client.get("/static/data.txt").header("Range", header).expectStatus(206);
+        return [response.headers.get("Content-Range"), await response.text()];
+    };
+    assertEquals(await range("bytes=0-4"), ["bytes 0-4/100", "01234"]);
+    assertEquals(await range("bytes=95-"), ["bytes 95-99/100", "56789"]);
+    assertEquals(await range("bytes=-3"), ["bytes 97-99/100", "789"]);
+    assertEquals(await range("bytes=98-1000"), ["bytes 98-99/100", "89"]);
+
+    await client.get("/static/data.txt").header("Range", "bytes=100-").expectStatus(416)
+        .expectHeader("Content-Range", "bytes */100");
+    // Invalid ranges are ignored and the whole file is served.
+    await client.get("/static/data.txt").header("Range", "bytes=5-2").expectStatus(200);
+}));
+
+Deno.test("static: multiple byte ranges", () => withResources(async (client) => {
+    const response = await client.get("/static/data.txt").header("Range", "bytes=0-1, 10-11").expectStatus(206);
+    const boundary = response.headers.get("Content-Type")!.match(/^multipart\/byteranges; boundary=(.+)$/)![1];
+    const body = await response.text();
+    assert(body.includes(`--${boundary}\r\nContent-Type: text/plain`));
+    assert(body.includes("Content-Range: bytes 0-1/100\r\n\r\n01\r\n"));
+    assert(body.includes("Content-Range: bytes 10-11/100\r\n\r\n01\r\n"));
+    assert(body.endsWith(`--${boundary}--\r\n`));
+    assertEquals(Number(response.headers.get("Content-Length")), new TextEncoder().encode(body).length);
+}));
+
+Deno.test("static: If-Range serves the range only if the validator matches", () => withResources(async (client) => {
+    const etag = (await client.head("/static/data.txt")).headers.get("ETag")!;
+    await client.get("/static/data.txt").header("Range", "bytes=0-4").header("If-Range", etag).expectStatus(206);
+
+    const stale = await client.get("/static/data.txt").header("Range", "bytes=0-4").header("If-Range", '"stale"')
+        .expectStatus(200);
+    assertEquals(await stale.text(), CONTENT);
+}));
+
+Deno.test("static: If-Modified-Since is used without If-None-Match", () => withResources(async (client) => {
+    const lastModified = (await client.head("/static/data.txt")).headers.get("Last-Modified")!;
+    await client.get("/static/data.txt").header("If-Modified-Since", lastModified).expectStatus(304);
+    await client.get("/static/data.txt").header("If-Modified-Since", new Date(0).toUTCString()).expectStatus(200);
+    await client.get("/static/data.txt").header("If-Modified-Since", lastModified).header("If-None-Match", '"other"')
+        .expectStatus(200);
+}));
+
+/** Compress the text with gzip */
+function gzip(text: string): ReadableStream<Uint8Array> {
+    return new Response(text).body!.pipeThrough(new CompressionStream("gzip"));
+}
+
+/** Decompress the gzip body of the response */
+function gunzip(response: Response): Promise<string> {
+    return new Response(response.body!.pipeThrough(new DecompressionStream("gzip"))).text();
+}
+
+Deno.test("static: precompressed variants are served if accepted", () => withResources(async (client) => {
+    const response = await client.get("/static/app.js").header("Accept-Encoding", "br, gzip").expectStatus(200)
+        .expectHeader("Content-Encoding", "gzip").expectHeader("Vary", "Accept-Encoding").response();
+    assertEquals(response.headers.get("Content-Type"), "text/javascript; charset=UTF-8");
+    assertEquals(await gunzip(response), "precompressed");
+
+    const plain = await client.get("/static/app.js").expectHeader("Vary", "Accept-Encoding").response();
+    assertEquals(plain.headers.get("Content-Encoding"), null);
+    assertEquals(await plain.text(), "console.log(1);");
+}, {}, { "app.js": "console.log(1);", "app.js.gz": gzip("precompressed") }));
+
+Deno.test("static: compressible files are compressed on the fly", () => withResources(async (client) => {
+    const response = await client.get("/static/large.txt").header("Accept-Encoding", "gzip").expectStatus(200)
+        .expectHeader("Content-Encoding", "gzip").response();
+    assertEquals(response.headers.get("Content-Length"), null);
+    assertMatch(response.headers.get("ETag")!, /^W\//);
+    assertEquals(await gunzip(response), CONTENT.repeat(20));
+
+    // Small files and range requests are not compressed.
+    const small = await client.get("/static/data.txt").header("Accept-Encoding", "gzip").response();
+    assertEquals(small.headers.get("Content-Encoding"), null);
+    await client.get("/static/large.txt").header("Accept-Encoding", "gzip").header("Range", "bytes=0-9")
+        .expectStatus(206);
+}, {}, { "large.txt": CONTENT.repeat(20) }));
+
+Deno.test("static: precompression and compression can be switched off", () => withResources(async (client) => {
+    for (const path of ["/static/app.js", "/static/large.txt"]) {
+        const response = await client.get(path).header("Accept-Encoding", "gzip").expectStatus(200).response();
+        assertEquals(response.headers.get("Content-Encoding"), null);
+    }
+}, { precompressed: false, compress: false }, {
+    "app.js": "console.log(1);", "app.js.gz": gzip("precompressed"), "large.txt": CONTENT.repeat(20)
+}));
+
+Deno.test("static: Cache-Control is set by the first matching policy", () => withResources(async (client) => {
+    await client.get("/static/app.0123abcd.js").expectHeader("Cache-Control", "public, max-age=31536000, immutable");
+    await client.get("/static/data.txt").expectHeader("Cache-Control", "no-cache");
+}, {
+    cacheControl: [
+        { match: /\.[0-9a-f]{8,}\.\w+$/, value: "public, max-age=31536000, immutable" },
+        { value: "no-cache" }
+    ]
+}, { "app.0123abcd.js": "console.log(1);" }));
+
+@Middleware
+class ErrorPages {
+    @ErrorHandler("error.html")
+    error(error: HttpError) {
+        return { status: error.status, title: STATUS_TEXT[error.status] };
+    }
+}
+
+/** Run the test with an application of several mounts and the error page */
+async function withMounts(fn: (client: TestClient, root: string) => Promise<void>): Promise<void> {
+    const root = await Deno.makeTempDir({ prefix: "cross-static-" });
+    try {
+        for (const dir of ["public/docs", "public/files", "public/.git", "spa/assets", "manual", "views", "secret"]) {
+            await Deno.mkdir(`${root}/${dir}`, { recursive: true });
+        }
+        await Deno.writeTextFile(`${root}/public/index.html`, "home");
+        await Deno.writeTextFile(`${root}/public/docs/guide.txt`, "guide");
+        await Deno.writeTextFile(`${root}/public/files/report.txt`, "report");
+        await Deno.writeTextFile(`${root}/public/files/.hidden`, "hidden");
+        await Deno.writeTextFile(`${root}/public/.env`, "SECRET=1");
+        await Deno.writeTextFile(`${root}/public/.git/config`, "[core]");
+        await Deno.writeTextFile(`${root}/manual/guide.txt`, "manual");
+        await Deno.writeTextFile(`${root}/spa/index.html`, "spa");
+        await Deno.writeTextFile(`${root}/spa/assets/app.js`, "app");
+        await Deno.writeTextFile(`${root}/secret/key.txt`, "key");
+        await Deno.writeTextFile(`${root}/views/error.html`, "<h1>{{= status }} {{= title }}</h1>");
+        await Deno.symlink(`${root}/secret/key.txt`, `${root}/public/key.txt`);
+
+        const app = createApp({ middlewares: [ErrorPages] });
+        app.errors({ logger: () => {} });
+        app.templates(`${root}/views`);
+        app.resources("/site", `${root}/public`, { listing: true });
+        app.resources("/site/docs", `${root}/manual`);
+        app.resources("/app", `${root}/spa`, { fallback: "index.html" });
+        await fn(new TestClient(app), root);
+    } finally {
+        await Deno.remove(root, { recursive: true });
+    }
+}
+
+Deno.test("static: the longest mounted path takes precedence", () => withMounts(async (client) => {
+    assertEquals(await client.get("/site/docs/guide.txt").expectStatus(200).text(), "manual");
+    assertEquals(await client.get("/site/index.html").expectStatus(200).text(), "home");
+}));
+
+Deno.test("static: directories are served by index files or listed", () => withMounts(async (client) => {
+    assertEquals(await client.get("/site/").expectStatus(200).text(), "home");
+    assertEquals(await client.get("/app/").expectStatus(200).text(), "spa");
+    await client.get("/app").expectStatus(301).expectHeader("Location", "/app/");
+
+    const listing = await client.get("/site/files/").expectStatus(200).response();
+    assertMatch(listing.headers.get("Content-Type")!, /^text\/html/);
+    const html = await listing.text();
+    assertStringIncludes(html, "report.txt");
+    assert(!html.includes(".hidden"));
+}));
+
+Deno.test("static: the fallback file is only served for missing pages", () => withMounts(async (client) => {
+    const page = client.get("/app/users/1").header("Accept", "text/html,application/xhtml+xml");
+    assertEquals(await page.expectStatus(200).text(), "spa");
+    assertEquals(await client.get("/app/assets/app.js").header("Accept", "text/html").text(), "app");
+    await client.get("/app/assets/missing.js").header("Accept", "*/*").expectStatus(404);
+}));
+
+Deno.test("static: dotfiles and symbolic links escaping the root are refused", () => withMounts(async (client) => {
+    await client.get("/site/.env").expectStatus(404);
+    await client.get("/site/.git/config").expectStatus(404);
+    await client.get("/site/key.txt").expectStatus(403);
+}));
+
+Deno.test("static: errors are handled by the error handlers with error pages", () => withMounts(async (client) => {
+    const page = await client.get("/site/missing.txt").header("Accept", "text/html").expectStatus(404)
+        .expectHeader("Content-Type", "text/html; charset=utf-8").text();
+    assertEquals(page, "<h1>404 Not Found</h1>");
+    assertEquals(await client.get("/site/missing.txt").expectStatus(404).json(), { status: 404, title: "Not Found" });
+}));
@@ -0,0 +1,171 @@
+import { getSetCookies } from "@std/http/cookie";
+import { Application } from "./mod.ts";
+
+/**
+ * Test client that sends requests to the application in-process (without binding a port).
+ * Cookies set by responses are kept and sent with subsequent requests, so that session flows can be tested.
+ *
+ * @Author Marco
+ * @Repository https://github.com/metadream/deno-cross
+ * @Since 2025-06-10
+ */
+export class TestClient {
+
+    // Cookies kept between requests
+    readonly cookies: Map<string, string> = new Map();
+
+    constructor(private app: Application, private baseUrl: string = "http://localhost") {}
+
+    get(path: string): TestRequest {
+        return this.request("GET", path);
+    }
+
+    post(path: string): TestRequest {
+        return this.request("POST", path);
+    }
+
+    put(path: string): TestRequest {
+        return this.request("PUT", path);
+    }
+
+    delete(path: string): TestRequest {
+        return this.request("DELETE", path);
+    }
+
+    patch(path: string): TestRequest {
+        return this.request("PATCH", path);
+    }
+
+    head(path: string): TestRequest {
+        return this.request("HEAD", path);
+    }
+
+    options(path: string): TestRequest {
+        return this.request("OPTIONS", path);
+    }
+
+    /** Create a request of any method, which is sent when it is awaited or its body is read. */
+    request(method: string, path: string): TestRequest {
+        return new TestRequest(this, method, new URL(path, this.baseUrl));
+    }
+
+    /** Send the request with the kept cookies, and keep the cookies of the response. */
+    async fetch(request: Request): Promise<Response> {
+        if (this.cookies.size && !request.headers.has("Cookie")) {
+            const cookie = [...this.cookies].map(([name, value]) => `${name}=${value}`).join("; ");
+            request.headers.set("Cookie", cookie);
+        }
+
+        const response = await this.app.handle(request);
+        for (const { name, value, maxAge, expires } of getSetCookies(response.headers)) {
+            const expired = maxAge !== undefined && maxAge <= 0
+                || expires !== undefined && new Date(expires).getTime() <= Date.now();
+            expired ? this.cookies.delete(name) : this.cookies.set(name, value);
+        }
+        return response;
+    }
+
+}
+
+/**
+ * Request builder of the test client with chained expectations.
+ * Failed expectations are thrown as errors including the response body.
+ *
+ * @Author Marco
+ * @Repository https://github.com/metadream/deno-cross
+ * @Since 2025-06-10
+ */
+export class TestRequest implements PromiseLike<Response> {
+
+    private headers = new Headers();
+    private body?: BodyInit;
+    private expectations: ((response: Response) => string | undefined)[] = [];
+    private responsePromise?: Promise<Response>;
+
+    constructor(private client: TestClient, private method: string, private url: URL) {}
+
+    /** Set a request header. */
+    header(name: string, value: string): this {
+        this.headers.set(name, value);
+        return this;
+    }
+
+    /** Append query parameters to the request URL. */
+    query(params: Record<string, unknown>): this {
+        for (const [key, value] of Object.entries(params)) {
+            for (const v of Array.isArray(value) ? value : [value]) this.url.searchParams.append(key, String(v));
+        }
+        return this;
+    }
+
+    /**
+     * Set the request body: plain objects and arrays are sent as JSON,
+     * others (string, FormData, URLSearchParams, Blob, etc.) are sent as they are.
+     */
+    send(body: unknown): this {
+        const isBodyInit = typeof body === "string" || body instanceof FormData || body instanceof URLSearchParams
+            || body instanceof Blob || body instanceof ArrayBuffer || ArrayBuffer.isView(body)
+            || body instanceof ReadableStream;
+        if (isBodyInit) {
+            this.body = body as BodyInit;
+        } else {
+            this.body = JSON.stringify(body);
+            if (!this.headers.has("Content-Type")) this.headers.set("Content-Type", "application/json");
+        }
+        return this;
+    }
+
+    /** Expect the response status. */
+    expectStatus(status: number): this {
+        this.expectations.push((res) =>
+            res.status === status ? undefined : `Expected status ${status}, got ${res.status}`);
+        return this;
+    }
+
+    /** Expect the response header to be present, equal to the string or match the regular expression. */
+    expectHeader(name: string, value?: string | RegExp): this {
+        this.expectations.push((res) => {
+            const actual = res.headers.get(name);
+            if (actual === null) return `Expected header "${name}" to be present`;
+            if (value === undefined) return;
+            const matched = typeof value === "string" ? actual === value : value.test(actual);
+            return matched ? undefined : `Expected header "${name}" to match ${value}, got "${actual}"`;
+        });
+        return this;
+    }
+
+    /** Send the request (only once) and check the expectations. */
+    response(): Promise<Response> {
+        return this.responsePromise ??= this.execute();
+    }
+
+    /** Read the response body as JSON. */
+    async json<T = any>(): Promise<T> {
+        return (await this.response()).json();
+    }
+
+    /** Read the response body as text. */
+    async text(): Promise<string> {
+        return (await this.response()).text();
+    }
+
+    then<R1 = Response, R2 = never>(
+        onfulfilled?: ((value: Response) => R1 | PromiseLike<R1>) | null,
+        onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null
+    ): Promise<R1 | R2> {
+        return this.response().then(onfulfilled, onrejected);
+    }
+
+    private async execute(): Promise<Response> {
+        const { method, headers, body } = this;
+        const response = await this.client.fetch(new Request(this.url, { method, headers, body }));
+
+        const failures = this.expectations.map((expect) => expect(response)).filter(Boolean);
+        if (failures.length) {
+            const content = await response.text();
+            throw new Error(`${failures.join("\n")}\n${method} ${this.url.pathname}: ${content}`);
+        }
+        return response;
+    }
+
+}
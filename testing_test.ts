@@ -0,0 +1,85 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { HttpContext } from "./context.ts";
+import { Autowired, Body, Component, Controller, Get, Post, PostConstruct, Query, Value } from "./decorators.ts";
+import { createApp } from "./mod.ts";
+import { TestClient } from "./testing.ts";
+
+@Component
+class GreetingService {
+
+    @Value("greeting.prefix", "Hello")
+    prefix!: string;
+
+    ready = false;
+
+    @PostConstruct
+    init() {
+        this.ready = true;
+    }
+}
+
+@Controller("/greetings")
+class GreetingController {
+
+    @Autowired
+    service!: GreetingService;
+
+    @Get("/")
+    greet(@Query name: string) {
+        return { ready: this.service.ready, message: `${this.service.prefix}, ${name}` };
+    }
+}
+
+Deno.test("testing: detached handle starts the application on the first request", async () => {
+    const app = createApp({ controllers: [GreetingController], components: [GreetingService] });
+    let started = 0;
+    app.onStart(() => started++);
+
+    const { handle } = app;
+    const server = { fetch: app.handle };
+    const response = await handle(new Request("http://localhost/greetings/?name=Deno"));
+    assertEquals(await response.json(), { ready: true, message: "Hello, Deno" });
+    assertEquals((await server.fetch(new Request("http://localhost/greetings/?name=x"))).status, 200);
+    assertEquals(started, 1);
+});
+
+Deno.test("testing: cookies are kept between requests for session flows", async () => {
+    const app = createApp();
+    app.post("/login", async (ctx: HttpContext) => {
+        await ctx.session.set("user", (await ctx.request.json()).username);
+        return { ok: true };
+    });
+    app.get("/me", async (ctx: HttpContext) => ({ user: await ctx.session.get("user") ?? null }));
+    app.post("/logout", async (ctx: HttpContext) => {
+        await ctx.session.destroy();
+        return { ok: true };
+    });
+
+    const client = new TestClient(app);
+    assertEquals(await client.get("/me").json(), { user: null });
+    await client.post("/login").send({ username: "admin" }).expectStatus(200);
+    assert(client.cookies.has("SESSION_ID"));
+    assertEquals(await client.get("/me").json(), { user: "admin" });
+
+    await client.post("/logout").expectStatus(200);
+    assert(!client.cookies.has("SESSION_ID"));
+    assertEquals(await client.get("/me").json(), { user: null });
+});
+
+Deno.test("testing: request builder sends queries and bodies, and checks expectations", async () => {
+    @Controller("/echo")
+    class EchoController {
+        @Post("/")
+        echo(@Query page: number, @Body body: unknown) {
+            return { page, body };
+        }
+    }
+    const app = createApp({ controllers: [EchoController] });
+    app.errors({ logger: () => {} });
+    const client = new TestClient(app);
+    const echo = await client.post("/echo/").query({ page: 2 }).send({ n: 1 }).expectStatus(200).json();
+    assertEquals(echo, { page: 2, body: { n: 1 } });
+
+    const request = client.get("/echo/").expectStatus(200).expectHeader("X-Missing");
+    await assertRejects(() => request.response(), Error, 'Expected status 200, got 405\nExpected header "X-Missing"');
+});
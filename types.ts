@@ -1,3 +1,5 @@
+import type { HttpError, HttpRequest } from "./context.ts";
+
 /** Route handler */
 export type RouteHandler = (...args: any[])
     => BodyInit | null | undefined | Promise<BodyInit | null | undefined>
@@ -5,15 +7,119 @@ export type RouteHandler = (...args: any[])
 /** Session object */
 export type Session = {
     data: Record<string, unknown>;
+    flash?: Record<string, unknown>;
+    created: number;
     expires: number;
 }
 
+/** Cookie options */
+export type CookieOptions = {
+    secret?: string;        // Secret for signed and encrypted cookies
+    oldSecrets?: string[];  // Old secrets still accepted for reading (key rotation)
+}
+
+/** Options of response compression for dynamic routes */
+export type CompressionOptions = {
+    enabled: boolean;   // true by default
+    threshold: number;  // Minimum bytes of bodies to compress (streamed bodies of unknown size are always compressed)
+}
+
+/** Options passed to the context of each request */
+export type ContextOptions = {
+    cookie: CookieOptions;
+    session: SessionOptions;
+    compression?: CompressionOptions;
+}
+
+/** Session storage, such as memory, Deno KV or file system */
+export interface SessionStore {
+    get(id: string): Promise<Session | undefined>;
+    set(id: string, session: Session): Promise<void>;
+    touch(id: string, expires: number): Promise<void>;
+    destroy(id: string): Promise<void>;
+    sweep(): Promise<void>;
+}
+
+/** Session options */
+export type SessionOptions = {
+    store: SessionStore;
+    maxAge: number;           // Seconds of idle timeout
+    absoluteTimeout: number;  // Seconds of absolute timeout since created (0 means disabled)
+    cookieName: string;       // Cookie name of session id
+    cookie: SessionCookieOptions;
+}
+
+/** Attributes of session cookie (`Secure` is set automatically for HTTPS requests if not specified) */
+export type SessionCookieOptions = {
+    path?: string;
+    domain?: string;
+    httpOnly?: boolean;
+    secure?: boolean;
+    sameSite?: "Strict" | "Lax" | "None";
+}
+
+/** Options of static resources */
+export type ResourceOptions = {
+    etag?: "strong" | "weak" | false;  // ETag by modification time and size ("strong" by default)
+    precompressed?: boolean;           // Serve `.br` and `.gz` siblings if accepted (true by default)
+    compress?: boolean;                // Compress compressible files on the fly (true by default)
+    cacheControl?: string | CachePolicy[];
+    index?: string[];                  // Index files of directories (["index.html"] by default)
+    listing?: boolean;                 // List directories without index files (false by default)
+    fallback?: string;                 // File served for missing HTML pages, e.g. "index.html" of SPAs
+    dotfiles?: boolean;                // Serve files and directories starting with "." (false by default)
+}
+
+/** Static resource route mounted to the real directory */
+export type ResourceMount = {
+    fsPath: string;  // Request path prefix ending with "/"
+    fsRoot: string;  // Absolute path of the directory
+    options: ResourceOptions;
+}
+
+/** Cache-Control policy of static resources, the first policy matching the request path is used */
+export type CachePolicy = {
+    match?: RegExp;  // All resources if not specified
+    value: string;   // e.g. "public, max-age=31536000, immutable"
+}
+
+/** Options of parameter decorators like `@Param` and `@Query` */
+export type ParamOptions = {
+    required?: boolean;
+    enum?: Record<string, string | number>;
+    field?: string;  // Form field name of `@UploadedFile`
+}
+
+/** Upload limits of route */
+export type UploadOptions = {
+    maxFileSize?: number;   // Maximum size of each file in bytes
+    maxFiles?: number;      // Maximum number of files
+    maxFieldSize?: number;  // Maximum size of each text field in bytes
+    maxFields?: number;     // Maximum number of text fields
+    maxFieldsSize?: number; // Maximum total size of all text fields in bytes
+    mimeTypes?: string[];   // Allowed MIME types (e.g. `image/*`)
+}
+
+/** Validation constraint of DTO property */
+export type Constraint = {
+    name: string;
+    value?: unknown;
+}
+
+/** Validation error of DTO field */
+export type FieldError = {
+    field: string;
+    constraint: string;
+    message: string;
+}
+
 /** Route handler parameter */
-export type Parameter = {
+export type Parameter = ParamOptions & {
     index: number;
     name: string;
     type: unknown;
     decorator?: string;
+    token?: InjectionToken;  // Token of @Inject
 }
 
 /** Base route */
@@ -27,18 +133,122 @@ export interface DynamicRoute extends BaseRoute {
     method: string;
     path: string;
     template?: string;
-    pattern?: RegExp;
-    params?: Record<string, string | number | boolean>;
+    upload?: UploadOptions;
+    interceptors?: InterceptorRoute[];  // Interceptors scoped to the controller or the route
+    skipInterceptors?: string[];        // Names of global interceptors to skip
+    skipCompression?: boolean;          // Response bodies are not compressed
+    produces?: string[];                // Media types of responses negotiated by the Accept header
+    consumes?: string[];                // Media types of request bodies
+    errorRoutes?: ErrorRoute[];         // Error handlers of the controller
+    name?: string;         // Route name for reverse URL generation
+    controller?: string;   // Class name of the controller
+    handlerName?: string;  // Method name of the controller
+}
+
+/** Options of request method decorators like `@Get` */
+export type RouteOptions = {
+    name?: string;
+}
+
+/** Route information for introspection */
+export type RouteInfo = {
+    name?: string;
+    method: string;
+    path: string;
+    controller?: string;
+    handler: string;
+    template?: string;
+    produces?: string[];
+    consumes?: string[];
+    parameters: { name: string; type?: string; decorator?: string }[];
+}
+
+/** Matched result of dynamic route */
+export interface RouteMatch {
+    route: DynamicRoute;
+    params: Record<string, string>;
+    mediaType?: string;  // Media type of @Produces negotiated by the Accept header
 }
 
 /** Interceptor route */
 export interface InterceptorRoute extends BaseRoute {
     order: number;
+    phase?: InterceptorPhase;  // Defaults to "before"
+    name?: string;       // Name for skipping the global interceptor
+    include?: RegExp[];  // Path patterns the global interceptor applies to
+    exclude?: RegExp[];  // Path patterns the global interceptor does not apply to
+}
+
+/** Execution phase of interceptor: before, after or around the handler */
+export type InterceptorPhase = "before" | "after" | "around";
+
+/** Options of `@Interceptor` */
+export type InterceptorOptions = {
+    order?: number;
+    name?: string;        // Defaults to the method name
+    include?: string[];   // Path patterns like `/admin/*` (`*` matches any characters)
+    exclude?: string[];
 }
 
 /** Error route */
 export interface ErrorRoute extends BaseRoute {
     template?: string;
+    errorType?: Function;  // Error class to handle (all errors if not specified)
+}
+
+/** Options of `HttpError` */
+export type HttpErrorOptions = {
+    cause?: unknown;       // The underlying error
+    expose?: boolean;      // Whether the message is safe to show clients (defaults to true for 4xx)
+    code?: string;         // Application error code, output as an extension member
+    type?: string;         // URI identifying the problem type (defaults to "about:blank")
+    extensions?: Record<string, unknown>;
+}
+
+/** Problem details object (RFC 9457) */
+export type ProblemDetails = {
+    type: string;
+    title: string;
+    status: number;
+    detail?: string;
+    instance?: string;
+    [extension: string]: unknown;
+}
+
+/** Options of error responses */
+export type ProblemOptions = {
+    production: boolean;   // Hide messages of 5xx errors unless exposed explicitly
+    logger: (error: HttpError, request: HttpRequest) => void;
+}
+
+/** Classes and providers bootstrapped by `createApp` */
+export type AppOptions = {
+    controllers?: Constructor[];
+    middlewares?: Constructor[];   // Classes of global interceptors and error handlers
+    components?: Constructor[];
+    providers?: (Provider | Constructor)[];
+    config?: string | string[];    // Configuration files loaded before the configuration is bound
+}
+
+/** Token identifying the injectable instance (class, or string and symbol for interfaces and values) */
+export type InjectionToken<T = unknown> = Constructor<T & object> | string | symbol;
+
+/** Scope of injectable instances */
+export type Scope = "singleton" | "transient" | "request";
+
+/** Provider of injectable instances (by class, value or factory) */
+export type Provider = {
+    provide: InjectionToken;
+    useClass?: Constructor;
+    useValue?: unknown;
+    useFactory?: (...args: any[]) => unknown;
+    inject?: InjectionToken[];  // Tokens of the factory arguments
+    scope?: Scope;              // Defaults to singleton
+}
+
+/** Options of `@Component` */
+export type ComponentOptions = {
+    scope?: Scope;
 }
 
 /** Classes that can be created by `new` */
@@ -0,0 +1,69 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { HttpResponse } from "./context.ts";
+import { Controller, Get, Param } from "./decorators.ts";
+import { createApp } from "./mod.ts";
+import { TestClient } from "./testing.ts";
+
+@Controller("/users")
+class UserController {
+
+    @Get("/")
+    list() {
+        return [];
+    }
+
+    @Get("/:id(\\d+)", { name: "user.show" })
+    show(@Param id: number) {
+        return { id };
+    }
+
+    @Get("/:id/posts/:slug?", { name: "user.posts" })
+    posts(@Param id: string, @Param slug: string) {
+        return { id, slug };
+    }
+
+    @Get("/files/:path(.+\\.txt)", { name: "user.file" })
+    file(@Param path: string) {
+        return { path };
+    }
+
+    @Get("/old", { name: "user.old" })
+    old(response: HttpResponse) {
+        response.redirect(app.url("UserController.list"));
+    }
+}
+
+const app = createApp({ controllers: [UserController] });
+
+Deno.test("url: routes are named after the controller method by default", () => {
+    assertEquals(app.url("UserController.list"), "/users/");
+    assertEquals(app.routes().find((r) => r.path === "/users/:id(\\d+)")?.name, "user.show");
+});
+
+Deno.test("url: parameters are filled and encoded with the query string", () => {
+    assertEquals(app.url("user.show", { id: 1 }, { tab: "profile", tags: ["a", "b"], skip: undefined }),
+        "/users/1?tab=profile&tags=a&tags=b");
+    assertEquals(app.url("user.posts", { id: "a b/c" }), "/users/a%20b%2Fc/posts");
+    assertEquals(app.url("user.posts", { id: 2, slug: "hello" }), "/users/2/posts/hello");
+    // Values of parameters with regular expressions may span multiple segments.
+    assertEquals(app.url("user.file", { path: "docs/read me.txt" }), "/users/files/docs/read%20me.txt");
+});
+
+Deno.test("url: unknown routes, missing and invalid parameters are rejected", () => {
+    assertThrows(() => app.url("user.unknown"), Error, "Route not found by name: user.unknown");
+    assertThrows(() => app.url("user.show"), Error, 'Missing parameter "id" for route "user.show"');
+    assertThrows(() => app.url("user.show", { id: "abc" }), Error, 'Parameter "id" for route "user.show" does not');
+});
+
+Deno.test("url: built URLs are routed back to the same handler", async () => {
+    const client = new TestClient(app);
+    assertEquals(await client.get(app.url("user.file", { path: "a/b.txt" })).json(), { path: "a/b.txt" });
+    assertEquals(await client.get(app.url("user.posts", { id: "a b" })).json(), { id: "a b" });
+    const response = await client.get(app.url("user.old")).expectStatus(307).response();
+    assertEquals(response.headers.get("Location"), "/users/");
+});
+
+Deno.test("url: reverse URL generation is available in templates", async () => {
+    const html = await app.engine.render('<a href="{{= url("user.show", { id: it.id }) }}">', { it: { id: 5 } });
+    assertEquals(html, '<a href="/users/5">');
+});
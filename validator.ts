@@ -0,0 +1,154 @@
+import { Constraint, Constructor, FieldError } from "./types.ts";
+import { ValidationError } from "./context.ts";
+import { getMetadata, isClassConstructor, isPlainObject } from "./reflection.ts";
+import { convertValue, enumValues } from "./converter.ts";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Constraint rules: return an error message if the value is invalid */
+const rules: Record<string, (value: any, arg: any) => string | undefined> = {
+    minLength: (v, n) => v.length < n ? `must be at least ${n} characters long` : undefined,
+    maxLength: (v, n) => v.length > n ? `must be at most ${n} characters long` : undefined,
+    pattern: (v, re) => !re.test(v) ? `must match pattern ${re}` : undefined,
+    min: (v, n) => v < n ? `must be greater than or equal to ${n}` : undefined,
+    max: (v, n) => v > n ? `must be less than or equal to ${n}` : undefined,
+    email: (v) => !EMAIL_PATTERN.test(v) ? "must be a valid email address" : undefined,
+    enum: (v, e) => {
+        const values = Array.isArray(e) ? e : enumValues(e);
+        return !values.includes(v) ? `must be one of ${values.join(", ")}` : undefined;
+    },
+};
+
+/** Determines whether the class has validation constraints defined (DTO class) */
+export function isValidatable(type: unknown): type is Constructor {
+    return isClassConstructor(type) && getProperties(type as Constructor).size > 0;
+}
+
+/**
+ * Create an instance of the DTO class from plain data and validate all fields.
+ * Only fields declared in the class are copied, other fields of the data are dropped.
+ * If `coerce` is true (such as form data), string values are converted to the declared types.
+ * If `strict` is true (such as configuration properties), initial values of fields are used for missing values,
+ * every declared field is checked by its declared type (or the type of its initial value if the field is not
+ * decorated) even without constraints, and undeclared fields of the data are reported instead of dropped.
+ * Throws a 422 validation error containing every failing field.
+ */
+export function validate<T extends object>(type: Constructor<T>, data: unknown, coerce = false, strict = false): T {
+    const errors: FieldError[] = [];
+    const instance = validateObject(type, data, "", errors, coerce, strict);
+    if (errors.length) {
+        throw new ValidationError(errors);
+    }
+    return instance as T;
+}
+
+/** Validate plain object against the DTO class and collect errors */
+function validateObject(
+    type: Constructor, data: unknown, path: string, errors: FieldError[], coerce: boolean, strict: boolean
+): object | undefined {
+    if (!isPlainObject(data)) {
+        errors.push({ field: path, constraint: "type", message: "must be an object" });
+        return;
+    }
+
+    // Copy declared fields only, so that clients cannot assign undeclared properties.
+    const instance: any = new type();
+    const declaredKeys = getDeclaredKeys(type, instance);
+    for (const key of declaredKeys) {
+        if ((data as any)[key] !== undefined) instance[key] = (data as any)[key];
+    }
+    if (strict) {
+        // Undeclared fields are most likely misspelled.
+        for (const key of Object.keys(data as object).filter((k) => !declaredKeys.has(k))) {
+            errors.push({ field: path ? `${path}.${key}` : key, constraint: "declared", message: "is not declared" });
+        }
+    }
+
+    const initial: any = strict ? new type() : {};
+    const properties = getProperties(type, strict);
+    const fields = strict ? [...declaredKeys].map((key) => [key, properties.get(key) || {}]) : properties;
+    for (const [key, metadata] of fields) {
+        const field = path ? `${path}.${String(key)}` : String(key);
+        let value = strict ? instance[key] : (data as any)[key];
+        const constraints: Constraint[] = metadata.constraints || [];
+
+        if (value === undefined || value === null || value === "") {
+            if (constraints.some((c) => c.name === "required")) {
+                errors.push({ field, constraint: "required", message: "must not be empty" });
+            }
+            continue;
+        }
+
+        const nested = constraints.find((c) => c.name === "nested")?.value as Constructor | undefined;
+        const designType = metadata["design:type"] ?? (strict ? typeOf(initial[key]) : undefined);
+
+        if (coerce && typeof value === "string") {
+            value = instance[key] = convertValue(value, designType) ?? value;
+        }
+
+        if (nested && designType === Array && !Array.isArray(value)) {
+            // Arrays of nested DTOs like `@Nested(Address) addresses: Address[]` must not accept a single object.
+            errors.push({ field, constraint: "type", message: "must be array" });
+            continue;
+        } else if (nested && Array.isArray(value)) {
+            instance[key] = value.map((item, i) => {
+                return validateObject(nested, item, `${field}[${i}]`, errors, coerce, strict);
+            });
+        } else if (nested || isValidatable(designType) || strict && isClassConstructor(designType)) {
+            instance[key] = validateObject(nested || designType, value, field, errors, coerce, strict);
+        } else if (!checkType(value, designType)) {
+            errors.push({ field, constraint: "type", message: `must be ${designType.name.toLowerCase()}` });
+            continue;
+        }
+
+        for (const { name, value: arg } of constraints) {
+            const message = rules[name]?.(value, arg);
+            if (message) errors.push({ field, constraint: name, message });
+        }
+    }
+    return instance;
+}
+
+/** Check whether the value matches the primitive design type */
+function checkType(value: unknown, type: unknown): boolean {
+    switch (type) {
+        case String:  return typeof value === "string";
+        case Number:  return typeof value === "number" && !isNaN(value);
+        case Boolean: return typeof value === "boolean";
+        case Array:   return Array.isArray(value);
+        default:      return true;
+    }
+}
+
+/** Get the type of the initial value of the field which is not decorated */
+function typeOf(value: unknown): unknown {
+    if (value === undefined || value === null) return undefined;
+    return Array.isArray(value) ? Array : Object.getPrototypeOf(value)?.constructor;
+}
+
+/** Get fields declared in the class (own fields of the instance and decorated properties of the class and its parents) */
+function getDeclaredKeys(type: Constructor, instance: object): Set<PropertyKey> {
+    const keys = new Set<PropertyKey>(Object.keys(instance));
+    for (let t = type; t && t !== Function.prototype; t = Object.getPrototypeOf(t)) {
+        const map = getMetadata(t) as Map<PropertyKey, any> | undefined;
+        for (const [key, metadata] of map || []) {
+            if (key !== "constructor" && !metadata.descriptor) keys.add(key);
+        }
+    }
+    return keys;
+}
+
+/** Get properties of the class and its parent classes with constraints (or all decorated properties) */
+function getProperties(type: Constructor, all = false): Map<PropertyKey, any> {
+    const properties = new Map<PropertyKey, any>();
+    for (let t = type; t && t !== Function.prototype; t = Object.getPrototypeOf(t)) {
+        const map = getMetadata(t) as Map<PropertyKey, any> | undefined;
+        for (const [key, metadata] of map || []) {
+            const matched = all ? key !== "constructor" && !metadata.descriptor : metadata.constraints;
+            if (matched && !properties.has(key)) {
+                properties.set(key, metadata);
+            }
+        }
+    }
+    return properties;
+}
@@ -0,0 +1,115 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { ValidationError } from "./context.ts";
+import {
+    Body, Controller, Email, Enum, Max, MaxLength, Min, MinLength, Nested, Pattern, Post, Required
+} from "./decorators.ts";
+import { createApp } from "./mod.ts";
+import { TestClient } from "./testing.ts";
+import { validate } from "./validator.ts";
+
+class AddressDto {
+    @Required
+    city!: string;
+
+    @Pattern(/^\d{5}$/)
+    zip?: string;
+}
+
+class UserDto {
+    @Required @MinLength(3) @MaxLength(8)
+    name!: string;
+
+    @Email
+    email?: string;
+
+    @Min(18) @Max(99)
+    age?: number;
+
+    @Enum(["admin", "guest"])
+    role: string = "guest";
+
+    @Nested(AddressDto)
+    address?: AddressDto;
+
+    @Nested(AddressDto)
+    addresses?: AddressDto[];
+
+    nickname?: string;
+
+    greet() {
+        return "Hi " + this.name;
+    }
+}
+
+@Controller("/users")
+class UserController {
+    @Post("/")
+    create(@Body user: UserDto) {
+        return { isDto: user instanceof UserDto, user };
+    }
+}
+
+/** Validate the data and return the field errors */
+function errorsOf(data: unknown): Record<string, string> {
+    const error = assertThrows(() => validate(UserDto, data), ValidationError) as ValidationError;
+    return Object.fromEntries(error.errors.map(({ field, message }) => [field, message]));
+}
+
+Deno.test("validator: valid data creates an instance of the DTO class", () => {
+    const user = validate(UserDto, { name: "alice", age: 30, address: { city: "Paris" }, addresses: [] });
+    assert(user instanceof UserDto);
+    assert(user.address instanceof AddressDto);
+    assertEquals(user.greet(), "Hi alice");
+    assertEquals(user.role, "guest");
+});
+
+Deno.test("validator: every failing field is reported", () => {
+    assertEquals(errorsOf({ email: "nope", age: 12, role: "root" }), {
+        name: "must not be empty",
+        email: "must be a valid email address",
+        age: "must be greater than or equal to 18",
+        role: "must be one of admin, guest",
+    });
+    assertEquals(errorsOf({ name: "al" }), { name: "must be at least 3 characters long" });
+    assertEquals(errorsOf({ name: 12345 }), { name: "must be string" });
+    assertEquals(errorsOf({ name: "alice", age: "30" }), { age: "must be number" });
+});
+
+Deno.test("validator: nested objects and arrays are validated with the field path", () => {
+    assertEquals(errorsOf({ name: "alice", address: { zip: "1" }, addresses: [{ city: "Rome" }, {}] }), {
+        "address.city": "must not be empty",
+        "address.zip": "must match pattern /^\\d{5}$/",
+        "addresses[1].city": "must not be empty",
+    });
+    assertEquals(errorsOf({ name: "alice", address: "Paris" }), { address: "must be an object" });
+    assertEquals(errorsOf({ name: "alice", addresses: { city: "Rome" } }), { addresses: "must be array" });
+});
+
+Deno.test("validator: undeclared fields are dropped", () => {
+    const user = validate(UserDto, { name: "alice", nickname: "al", isAdmin: true, address: { city: "A", x: 1 } });
+    assertEquals(user.nickname, "al");
+    assert(!("isAdmin" in user));
+    assert(!("x" in user.address!));
+});
+
+Deno.test("validator: string values are coerced to the declared types if enabled", () => {
+    assertEquals(validate(UserDto, { name: "alice", age: "30" }, true).age, 30);
+});
+
+Deno.test("validator: @Body DTO is validated and responded as 422 with field errors", async () => {
+    const app = createApp({ controllers: [UserController] });
+    app.errors({ logger: () => {} });
+    const client = new TestClient(app);
+
+    const created = await client.post("/users/").send({ name: "alice", isAdmin: true }).expectStatus(200).json();
+    assertEquals(created, { isDto: true, user: { name: "alice", role: "guest" } });
+
+    const problem = await client.post("/users/").send({ name: "al", age: 100 }).expectStatus(422).json();
+    assertEquals(problem.errors, [
+        { field: "name", constraint: "minLength", message: "must be at least 3 characters long" },
+        { field: "age", constraint: "max", message: "must be less than or equal to 99" },
+    ]);
+
+    const form = new URLSearchParams({ name: "alice", age: "40" });
+    assertEquals((await client.post("/users/").send(form).expectStatus(200).json()).user.age, 40);
+});